@@ -0,0 +1,82 @@
+import { emitKeypressEvents } from 'node:readline';
+import { parseArgs } from 'node:util';
+import { GameModeType, SIMULATION_FPS, DAS_DELAY } from '@/types/tetris';
+import { Game } from '@/core/game';
+import { renderFrame } from './terminal-renderer';
+import { TerminalInput, DEFAULT_KEY_REPEAT_DELAY, getTapHoldTime } from './terminal-input';
+
+const ENTER_SCREEN = '\x1b[?1049h\x1b[?25l\x1b[2J';
+const LEAVE_SCREEN = '\x1b[?25h\x1b[?1049l';
+const CURSOR_HOME = '\x1b[H';
+
+/**
+ * Longest OS key repeat delay in ms that still leaves DAS within its limit
+ */
+const MAX_REPEAT_DELAY = 800;
+
+interface Keypress {
+  name?: string;
+  ctrl?: boolean;
+}
+
+function main(): void {
+  if (!process.stdin.isTTY) {
+    process.stderr.write('The terminal front-end needs an interactive terminal (TTY).\n');
+    process.exit(1);
+  }
+
+  const { values } = parseArgs({ options: { mode: { type: 'string' }, 'repeat-delay': { type: 'string' } } });
+  const mode = (values.mode ?? GameModeType.MARATHON).toUpperCase() as GameModeType;
+  if (!Object.values(GameModeType).includes(mode) || mode === GameModeType.VERSUS) {
+    process.stderr.write(`Unknown or unsupported mode: ${values.mode}\n`);
+    process.exit(1);
+  }
+  const repeatDelay = Number(values['repeat-delay'] ?? DEFAULT_KEY_REPEAT_DELAY);
+  if (!Number.isInteger(repeatDelay) || repeatDelay < 0 || repeatDelay > MAX_REPEAT_DELAY) {
+    process.stderr.write(`--repeat-delay must be a whole number of ms from 0 to ${MAX_REPEAT_DELAY}\n`);
+    process.exit(1);
+  }
+
+  // Key repeats look like fresh presses here, so key and finesse counts would be inflated
+  // A tap stays down until its first repeat would be due, so DAS waits longer than that
+  const das = Math.max(DAS_DELAY, getTapHoldTime(repeatDelay) + 1000 / SIMULATION_FPS);
+  const game = new Game({ mode, sound: false, inputStats: false, handling: { das } });
+  const input = new TerminalInput(game, repeatDelay);
+
+  let lastTime = performance.now();
+  const loop = setInterval(() => {
+    const now = performance.now();
+    game.update(now - lastTime);
+    lastTime = now;
+    process.stdout.write(CURSOR_HOME + renderFrame(game));
+  }, 1000 / SIMULATION_FPS);
+
+  const quit = () => {
+    clearInterval(loop);
+    input.releaseAll();
+    process.stdout.write(LEAVE_SCREEN);
+    process.stdin.setRawMode(false);
+    process.exit(0);
+  };
+
+  emitKeypressEvents(process.stdin);
+  process.stdin.setRawMode(true);
+  process.stdin.on('keypress', (_text: string, key: Keypress | undefined) => {
+    if (!key?.name) return;
+
+    if (key.name === 'q' || (key.ctrl && key.name === 'c')) {
+      quit();
+    } else if (key.name === 'r') {
+      input.releaseAll();
+      game.start();
+    } else {
+      input.handleKey(key.name);
+    }
+  });
+  process.on('SIGTERM', quit);
+
+  process.stdout.write(ENTER_SCREEN);
+  game.start();
+}
+
+main();
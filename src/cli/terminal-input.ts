@@ -0,0 +1,103 @@
+import { Game, InputAction } from '@/core/game';
+
+/**
+ * Keypress names (as reported by Node's readline) mapped to game inputs
+ */
+export const TERMINAL_KEY_MAPPING: Record<string, InputAction> = {
+  'left': InputAction.MOVE_LEFT,
+  'right': InputAction.MOVE_RIGHT,
+  'down': InputAction.SOFT_DROP,
+  'up': InputAction.ROTATE_CW,
+  'space': InputAction.HARD_DROP,
+  'x': InputAction.ROTATE_CW,
+  'z': InputAction.ROTATE_CCW,
+  'a': InputAction.ROTATE_180,
+  'c': InputAction.HOLD,
+  'p': InputAction.PAUSE,
+};
+
+/**
+ * Inputs that act while held; all others are sent as a press and an immediate release
+ */
+const HELD_ACTIONS = [InputAction.MOVE_LEFT, InputAction.MOVE_RIGHT, InputAction.SOFT_DROP];
+
+/**
+ * Typical OS key repeat delay in ms, the wait before a held key starts repeating
+ */
+export const DEFAULT_KEY_REPEAT_DELAY = 500;
+
+/**
+ * Time in ms a held key stays down after its last repeat
+ * Terminals only send key repeats, never releases, so a key counts as released once its repeats stop
+ */
+const REPEAT_RELEASE_DELAY = 120;
+
+/**
+ * How long a first keypress stays down before it counts as a tap
+ * It has to outlast the OS repeat delay, or a held key would be released and pressed again
+ * on its first repeat, restarting DAS
+ */
+export function getTapHoldTime(repeatDelay: number): number {
+  return repeatDelay + REPEAT_RELEASE_DELAY;
+}
+
+/**
+ * Turns terminal keypresses into game inputs, synthesizing key-up events
+ */
+export class TerminalInput {
+  private game: Game;
+  private repeatDelay: number;
+  private held: Map<InputAction, ReturnType<typeof setTimeout>> = new Map();
+
+  /**
+   * @param repeatDelay The OS key repeat delay in ms
+   */
+  constructor(game: Game, repeatDelay = DEFAULT_KEY_REPEAT_DELAY) {
+    this.game = game;
+    this.repeatDelay = repeatDelay;
+  }
+
+  /**
+   * Handle a keypress by its readline key name
+   * @returns false when the key is not a game key
+   */
+  handleKey(name: string): boolean {
+    const action = TERMINAL_KEY_MAPPING[name];
+    if (!action) return false;
+
+    if (!HELD_ACTIONS.includes(action)) {
+      this.game.handleInput(action, true);
+      this.game.handleInput(action, false);
+      return true;
+    }
+
+    // A repeat keeps the key down; a first press stays down until its first repeat is due
+    const timer = this.held.get(action);
+    if (timer) {
+      clearTimeout(timer);
+    } else {
+      this.game.handleInput(action, true);
+    }
+    this.held.set(
+      action,
+      setTimeout(() => this.release(action), timer ? REPEAT_RELEASE_DELAY : getTapHoldTime(this.repeatDelay))
+    );
+    return true;
+  }
+
+  /**
+   * Release every held key, e.g. before restarting or quitting
+   */
+  releaseAll(): void {
+    for (const action of [...this.held.keys()]) {
+      this.release(action);
+    }
+  }
+
+  private release(action: InputAction): void {
+    const timer = this.held.get(action);
+    if (timer) clearTimeout(timer);
+    this.held.delete(action);
+    this.game.handleInput(action, false);
+  }
+}
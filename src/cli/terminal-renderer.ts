@@ -0,0 +1,172 @@
+import {
+  TetrominoType,
+  Cell,
+  GameState,
+  TETROMINO_COLORS,
+  GARBAGE,
+  GARBAGE_COLOR,
+  BOARD_WIDTH,
+  HIDDEN_ROWS,
+  TOTAL_HEIGHT,
+} from '@/types/tetris';
+import { Game } from '@/core/game';
+import { formatTime } from '@/utils/format';
+
+const RESET = '\x1b[0m';
+const DIM = '\x1b[2m';
+const EMPTY_CELL = `${DIM} .${RESET}`;
+const PREVIEW_WIDTH = 10; // Four cells plus padding, in characters
+const ESCAPE_SEQUENCE = new RegExp(`${String.fromCharCode(27)}\\[[0-9;?]*[a-zA-Z]`, 'g');
+
+/**
+ * What each cell of the playfield shows this frame
+ */
+type Overlay = { type: TetrominoType; ghost: boolean };
+
+/**
+ * Split a 0xRRGGBB color into its channels
+ */
+function toRgb(color: number): string {
+  return `${(color >> 16) & 0xff};${(color >> 8) & 0xff};${color & 0xff}`;
+}
+
+/**
+ * Draw a solid block as two colored spaces
+ */
+function block(color: number): string {
+  return `\x1b[48;2;${toRgb(color)}m  ${RESET}`;
+}
+
+/**
+ * Draw a ghost block as a colored outline
+ */
+function ghostBlock(color: number): string {
+  return `\x1b[38;2;${toRgb(color)}m[]${RESET}`;
+}
+
+function cellColor(cell: Exclude<Cell, null>): number {
+  return cell === GARBAGE ? GARBAGE_COLOR : TETROMINO_COLORS[cell];
+}
+
+/**
+ * Pad a line that contains escape codes to a visible width
+ */
+function padVisible(line: string, width: number): string {
+  const visible = line.replace(ESCAPE_SEQUENCE, '').length;
+  return line + ' '.repeat(Math.max(0, width - visible));
+}
+
+/**
+ * Draw a piece in its spawn orientation for the hold and next boxes
+ */
+function renderPreview(game: Game, type: TetrominoType | null): string[] {
+  if (!type) return ['', ''];
+
+  const shape = game.getRotationSystem().getShape(type, 0).filter(row => row.includes(1));
+  return shape.map(row => ' ' + row.map(cell => (cell ? block(TETROMINO_COLORS[type]) : '  ')).join(''));
+}
+
+/**
+ * Mark the falling piece and its ghost on the playfield
+ */
+function getOverlay(game: Game): Map<string, Overlay> {
+  const overlay = new Map<string, Overlay>();
+  const piece = game.getCurrentPiece();
+  const ghost = game.getGhostPosition();
+  if (!piece) return overlay;
+
+  const shape = game.getRotationSystem().getShape(piece.type, piece.rotation);
+  const mark = (x: number, y: number, isGhost: boolean) => {
+    for (let row = 0; row < shape.length; row++) {
+      for (let col = 0; col < shape[row].length; col++) {
+        if (shape[row][col]) overlay.set(`${x + col},${y + row}`, { type: piece.type, ghost: isGhost });
+      }
+    }
+  };
+
+  if (ghost) mark(ghost.x, ghost.y, true);
+  mark(piece.position.x, piece.position.y, false);
+  return overlay;
+}
+
+/**
+ * Draw the visible playfield inside a border
+ */
+function renderBoard(game: Game): string[] {
+  const grid = game.getBoard().getGrid();
+  const overlay = getOverlay(game);
+  const lines = [`+${'-'.repeat(BOARD_WIDTH * 2)}+`];
+
+  for (let y = HIDDEN_ROWS; y < TOTAL_HEIGHT; y++) {
+    let line = '|';
+    for (let x = 0; x < BOARD_WIDTH; x++) {
+      const cell = grid[y][x];
+      const piece = overlay.get(`${x},${y}`);
+      if (piece && !piece.ghost) {
+        line += block(TETROMINO_COLORS[piece.type]);
+      } else if (cell !== null) {
+        line += block(cellColor(cell));
+      } else if (piece) {
+        line += ghostBlock(TETROMINO_COLORS[piece.type]);
+      } else {
+        line += EMPTY_CELL;
+      }
+    }
+    lines.push(line + '|');
+  }
+
+  lines.push(`+${'-'.repeat(BOARD_WIDTH * 2)}+`);
+  return lines;
+}
+
+/**
+ * Describe the game state under the board
+ */
+function getStatus(game: Game): string {
+  switch (game.getState()) {
+    case GameState.PAUSED:
+      return 'PAUSED - p: resume';
+    case GameState.GAME_OVER:
+      return `GAME OVER (${game.getGameOverReason()}) - r: restart, q: quit`;
+    case GameState.COMPLETED:
+      return 'COMPLETE! - r: restart, q: quit';
+    case GameState.TIME_UP:
+      return 'TIME UP - r: restart, q: quit';
+    default:
+      return '';
+  }
+}
+
+/**
+ * Build one full frame: hold and stats on the left, the board, and the next queue on the right
+ */
+export function renderFrame(game: Game): string {
+  const stats = game.getStats();
+  const left = [
+    'HOLD',
+    ...renderPreview(game, game.getHoldPiece()),
+    '',
+    'SCORE',
+    ` ${stats.score}`,
+    'LEVEL',
+    ` ${stats.level}`,
+    'LINES',
+    ` ${stats.lines}`,
+    'TIME',
+    ` ${formatTime(game.getRemainingTime() ?? game.getElapsedTime())}`,
+  ];
+  const right = ['NEXT'];
+  for (const type of game.getNextPieces(5)) {
+    right.push(...renderPreview(game, type), '');
+  }
+
+  const board = renderBoard(game);
+  const lines = board.map((line, index) =>
+    `${padVisible(left[index] ?? '', PREVIEW_WIDTH)} ${line} ${right[index] ?? ''}`
+  );
+  lines.push(`${' '.repeat(PREVIEW_WIDTH + 1)}${getStatus(game)}`);
+  lines.push(`${' '.repeat(PREVIEW_WIDTH + 1)}${DIM}← → ↓ move | ↑/x cw | z ccw | a 180 | c hold | space drop | p pause | q quit${RESET}`);
+
+  // Clear to the end of each line so shorter text leaves no leftovers
+  return lines.map(line => `${line}\x1b[K`).join('\n');
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import { findPlacements, findBestPlacement, evaluateBoard, Bot } from '../ai';
+import { Board } from '../board';
+import { Game, InputAction } from '../game';
+import {
+  TetrominoType,
+  TSpinType,
+  GameState,
+  RandomizerType,
+  GARBAGE,
+  BOARD_WIDTH,
+  TOTAL_HEIGHT,
+} from '@/types/tetris';
+
+const BOTTOM = TOTAL_HEIGHT - 1;
+
+/**
+ * Fill cells of the grid given as [x, y] pairs
+ */
+function fill(board: Board, cells: [number, number][]): void {
+  const grid = board.getGrid();
+  for (const [x, y] of cells) grid[y][x] = GARBAGE;
+}
+
+/**
+ * Fill whole rows except for the listed columns
+ */
+function fillRow(board: Board, y: number, gaps: number[]): void {
+  for (let x = 0; x < BOARD_WIDTH; x++) {
+    if (!gaps.includes(x)) board.getGrid()[y][x] = GARBAGE;
+  }
+}
+
+/**
+ * Build a T-Spin Double slot at columns 3-5, roofed from the left
+ */
+function createTsdBoard(): Board {
+  const board = new Board();
+  fillRow(board, BOTTOM, [4]);
+  fillRow(board, BOTTOM - 1, [3, 4, 5]);
+  fill(board, [[0, BOTTOM - 2], [1, BOTTOM - 2], [2, BOTTOM - 2], [3, BOTTOM - 2]]);
+  return board;
+}
+
+describe('findPlacements', () => {
+  it('should find every column and orientation on an empty board', () => {
+    const board = new Board();
+    expect(findPlacements(board, TetrominoType.O)).toHaveLength(9);
+    // 7 flat + 10 upright
+    expect(findPlacements(board, TetrominoType.I)).toHaveLength(17);
+  });
+
+  it('should end every input sequence with a hard drop', () => {
+    for (const placement of findPlacements(new Board(), TetrominoType.L)) {
+      expect(placement.inputs[placement.inputs.length - 1]).toBe(InputAction.HARD_DROP);
+    }
+  });
+
+  it('should tuck under an overhang with soft drop', () => {
+    const board = new Board();
+    // Roof over columns 0-1, two rows above the floor
+    fill(board, [[0, BOTTOM - 2], [1, BOTTOM - 2]]);
+
+    const tuck = findPlacements(board, TetrominoType.O).find(placement => {
+      const result = board.clone();
+      result.lockPiece(placement.type, placement.position, placement.rotation);
+      return result.getGrid()[BOTTOM][0] !== null;
+    });
+
+    expect(tuck).toBeDefined();
+    expect(tuck!.inputs).toContain(InputAction.SOFT_DROP);
+  });
+
+  it('should find T-Spins through the real kicks', () => {
+    const spins = findPlacements(createTsdBoard(), TetrominoType.T).filter(
+      placement => placement.tSpin === TSpinType.FULL
+    );
+    expect(spins.length).toBeGreaterThan(0);
+  });
+
+  it('should find nothing when the spawn is blocked', () => {
+    const board = new Board();
+    for (let y = 0; y < TOTAL_HEIGHT; y++) fillRow(board, y, [0]);
+    expect(findPlacements(board, TetrominoType.T)).toEqual([]);
+  });
+});
+
+describe('evaluateBoard', () => {
+  it('should prefer a board without holes', () => {
+    const flat = new Board();
+    fillRow(flat, BOTTOM, [9]);
+    const holed = new Board();
+    fillRow(holed, BOTTOM, [9]);
+    fill(holed, [[9, BOTTOM - 1]]);
+
+    expect(evaluateBoard(flat)).toBeGreaterThan(evaluateBoard(holed));
+  });
+});
+
+describe('findBestPlacement', () => {
+  it('should take the T-Spin Double', () => {
+    const decision = findBestPlacement(createTsdBoard(), TetrominoType.T, null, [], { canHold: false });
+
+    expect(decision!.placement.tSpin).toBe(TSpinType.FULL);
+    expect(decision!.hold).toBe(false);
+  });
+
+  it('should hold when the held piece fits better', () => {
+    const board = new Board();
+    // A four-deep well only an I clears
+    for (let y = BOTTOM - 3; y <= BOTTOM; y++) fillRow(board, y, [0]);
+
+    const decision = findBestPlacement(board, TetrominoType.S, TetrominoType.I, [TetrominoType.S], {
+      canHold: true,
+      depth: 0,
+    });
+
+    expect(decision!.hold).toBe(true);
+    expect(decision!.placement.type).toBe(TetrominoType.I);
+  });
+});
+
+describe('Bot', () => {
+  function createGame(): Game {
+    const game = new Game({ randomizer: RandomizerType.FIXED, pieceSequence: [TetrominoType.O] });
+    game.start();
+    return game;
+  }
+
+  it('should play placements through the game inputs', () => {
+    const game = createGame();
+    const bot = new Bot(game, { inputDelay: 0, depth: 0 });
+
+    for (let i = 0; i < 60; i++) {
+      bot.update(16);
+      game.step();
+    }
+
+    expect(game.getState()).toBe(GameState.PLAYING);
+    expect(game.getStats().pieces).toBeGreaterThanOrEqual(50);
+    expect(game.getStats().lines).toBeGreaterThanOrEqual(16);
+  });
+
+  it('should look as far ahead when holding into an empty slot', () => {
+    // The O sits cleanly, but holding it is the only way to reach the I for the four-deep well
+    const game = new Game({
+      randomizer: RandomizerType.FIXED,
+      pieceSequence: [TetrominoType.O, TetrominoType.S, TetrominoType.I],
+    });
+    game.start();
+    for (let y = BOTTOM - 3; y <= BOTTOM; y++) fillRow(game.getBoard(), y, [0]);
+    const inputs: InputAction[] = [];
+    game.on('input', (event) => {
+      if (event.data.pressed) inputs.push(event.data.action);
+    });
+
+    new Bot(game, { inputDelay: 0, depth: 1 }).update(16);
+
+    expect(inputs[0]).toBe(InputAction.HOLD);
+    expect(game.getHoldPiece()).toBe(TetrominoType.O);
+  });
+
+  it('should wait between inputs', () => {
+    const game = createGame();
+    const inputs: InputAction[] = [];
+    game.on('input', (event) => {
+      if (event.data.pressed) inputs.push(event.data.action);
+    });
+    const bot = new Bot(game, { inputDelay: 100, depth: 0 });
+
+    bot.update(50);
+    expect(inputs).toHaveLength(0);
+    bot.update(50);
+    expect(inputs).toHaveLength(1);
+  });
+
+  it('should re-route from where gravity has moved the piece', () => {
+    // A pocket under a roof at the left, reached down the shaft next to it and a tuck
+    const game = createGame();
+    const board = game.getBoard();
+    for (let y = BOTTOM - 1; y <= BOTTOM; y++) fillRow(board, y, [0, 1, 2, 3]);
+    fill(board, [[0, BOTTOM - 2], [1, BOTTOM - 2]]);
+    const inputs: InputAction[] = [];
+    game.on('input', (event) => {
+      if (event.data.pressed) inputs.push(event.data.action);
+    });
+    const bot = new Bot(game, { inputDelay: 100, depth: 0 });
+
+    bot.update(100);
+    expect(inputs).toEqual([InputAction.MOVE_LEFT]);
+    // Stand in for gravity: the piece is already at the bottom of the shaft
+    game.getCurrentPiece()!.position = { x: 1, y: BOTTOM - 1 };
+    for (let i = 0; i < 10 && game.getStats().pieces === 0; i++) bot.update(100);
+
+    expect(inputs).not.toContain(InputAction.SOFT_DROP);
+    expect(board.getGrid()[BOTTOM][0]).not.toBeNull();
+    expect(board.getGrid()[BOTTOM][1]).not.toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { calculateAttack, GUIDELINE_ATTACK_TABLE, ClearInfo } from '../attack';
+import { TSpinType } from '@/types/tetris';
+
+function attack(clear: Partial<ClearInfo>): number {
+  return calculateAttack(GUIDELINE_ATTACK_TABLE, {
+    lines: 1,
+    tSpin: TSpinType.NONE,
+    backToBack: false,
+    combo: 1,
+    perfectClear: false,
+    ...clear,
+  });
+}
+
+describe('calculateAttack', () => {
+  it('should send the guideline lines for plain clears', () => {
+    expect([1, 2, 3, 4].map(lines => attack({ lines }))).toEqual([0, 1, 2, 4]);
+  });
+
+  it('should send more for T-Spins than minis', () => {
+    expect(attack({ lines: 2, tSpin: TSpinType.FULL })).toBe(4);
+    expect(attack({ lines: 1, tSpin: TSpinType.MINI })).toBe(0);
+    expect(attack({ lines: 2, tSpin: TSpinType.MINI })).toBe(1);
+  });
+
+  it('should add the back-to-back bonus', () => {
+    expect(attack({ lines: 4, backToBack: true })).toBe(5);
+  });
+
+  it('should add combo bonuses and cap them at the end of the table', () => {
+    expect(attack({ combo: 1 })).toBe(0);
+    expect(attack({ combo: 3 })).toBe(1);
+    expect(attack({ combo: 50 })).toBe(5);
+  });
+
+  it('should add the perfect clear bonus', () => {
+    expect(attack({ lines: 4, perfectClear: true })).toBe(14);
+  });
+
+  it('should send nothing without a clear', () => {
+    expect(attack({ lines: 0, tSpin: TSpinType.FULL, perfectClear: true })).toBe(0);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { Board } from '../board';
-import { TetrominoType, BOARD_WIDTH, TOTAL_HEIGHT } from '@/types/tetris';
+import { TetrominoType, GARBAGE, BOARD_WIDTH, TOTAL_HEIGHT } from '@/types/tetris';
 
 describe('Board', () => {
   let board: Board;
@@ -198,6 +198,71 @@ describe('Board', () => {
     });
   });
 
+  describe('isEmpty', () => {
+    it('should report an empty board until a piece locks', () => {
+      expect(board.isEmpty()).toBe(true);
+      board.lockPiece(TetrominoType.O, { x: 0, y: 18 }, 0);
+      expect(board.isEmpty()).toBe(false);
+    });
+
+    it('should report empty again once the last line clears', () => {
+      const grid = board.getGrid();
+      for (let x = 0; x < BOARD_WIDTH; x++) {
+        grid[TOTAL_HEIGHT - 1][x] = TetrominoType.I;
+      }
+      board.clearLines();
+      expect(board.isEmpty()).toBe(true);
+    });
+  });
+
+  describe('top-out', () => {
+    it('should report pieces locked partly above the grid', () => {
+      expect(board.isGameOver()).toBe(false);
+
+      board.lockPiece(TetrominoType.I, { x: 0, y: -2 }, 1);
+      expect(board.isGameOver()).toBe(true);
+
+      board.reset();
+      expect(board.isGameOver()).toBe(false);
+    });
+
+    it('should tell whether a piece lies entirely above the visible field', () => {
+      expect(board.isAboveVisibleField(TetrominoType.I, { x: 3, y: 0 }, 0)).toBe(true);
+      expect(board.isAboveVisibleField(TetrominoType.T, { x: 3, y: 1 }, 0)).toBe(false);
+    });
+  });
+
+  describe('garbage', () => {
+    it('should push rows in from the bottom with one hole each', () => {
+      board.getGrid()[TOTAL_HEIGHT - 1][0] = TetrominoType.T;
+
+      board.insertGarbage([3, 7]);
+
+      const grid = board.getGrid();
+      expect(grid[TOTAL_HEIGHT - 3][0]).toBe(TetrominoType.T);
+      expect(grid[TOTAL_HEIGHT - 2][3]).toBeNull();
+      expect(grid[TOTAL_HEIGHT - 2].filter(cell => cell === GARBAGE)).toHaveLength(BOARD_WIDTH - 1);
+      expect(grid[TOTAL_HEIGHT - 1][7]).toBeNull();
+      expect(board.countGarbageRows()).toBe(2);
+    });
+
+    it('should clear a garbage row once its hole is filled', () => {
+      board.insertGarbage([4]);
+      board.getGrid()[TOTAL_HEIGHT - 1][4] = TetrominoType.I;
+
+      expect(board.clearLines()).toEqual([TOTAL_HEIGHT - 1]);
+      expect(board.countGarbageRows()).toBe(0);
+    });
+
+    it('should top out when garbage lifts blocks past the top', () => {
+      board.getGrid()[0][5] = TetrominoType.O;
+
+      board.insertGarbage([0]);
+
+      expect(board.isGameOver()).toBe(true);
+    });
+  });
+
   describe('reset', () => {
     it('should clear the board', () => {
       // Add some pieces
@@ -240,5 +305,36 @@ describe('Board', () => {
       const stats = board.getBoardStats();
       expect(stats.holes).toBe(1);
     });
+
+    it('should measure wells', () => {
+      const grid = board.getGrid();
+      // Column 1 is two deep between columns 0 and 2
+      for (const x of [0, 2]) {
+        grid[20][x] = TetrominoType.I;
+        grid[21][x] = TetrominoType.I;
+      }
+
+      expect(board.getBoardStats().wells).toBe(2);
+    });
+
+    it('should count T-Spin Double slots', () => {
+      const grid = board.getGrid();
+      for (let x = 0; x < 10; x++) {
+        if (x !== 4) grid[21][x] = TetrominoType.I;
+        if (x < 3 || x > 5) grid[20][x] = TetrominoType.I;
+      }
+      grid[19][3] = TetrominoType.I;
+
+      expect(board.getBoardStats().tSlots).toBe(1);
+    });
+
+    it('should clone without sharing cells', () => {
+      board.getGrid()[21][0] = TetrominoType.I;
+      const copy = board.clone();
+      copy.getGrid()[21][1] = TetrominoType.O;
+
+      expect(copy.getGrid()[21][0]).toBe(TetrominoType.I);
+      expect(board.getGrid()[21][1]).toBeNull();
+    });
   });
 });
\ No newline at end of file
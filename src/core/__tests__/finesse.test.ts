@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { findFinesseSequence } from '../finesse';
+import { getRotationSystem } from '../rotation';
+import { TetrominoType, RotationState, RotationSystemType } from '@/types/tetris';
+
+describe('findFinesseSequence', () => {
+  const srs = getRotationSystem(RotationSystemType.SRS);
+
+  it('should need no input for the spawn placement', () => {
+    const spawn = srs.getSpawnPosition(TetrominoType.T);
+    expect(findFinesseSequence(srs, TetrominoType.T, spawn.x, RotationState.SPAWN)).toEqual([]);
+  });
+
+  it('should use a single held move to reach the wall', () => {
+    expect(findFinesseSequence(srs, TetrominoType.T, 0, RotationState.SPAWN)).toEqual([
+      { action: 'MOVE_LEFT', hold: true },
+    ]);
+  });
+
+  it('should combine a rotation with a move', () => {
+    // Vertical I in the right column of its box: x + 2 = 9
+    const sequence = findFinesseSequence(srs, TetrominoType.I, 7, RotationState.RIGHT);
+    expect(sequence).toHaveLength(2);
+    expect(sequence).toContainEqual({ action: 'ROTATE_CW' });
+    expect(sequence).toContainEqual({ action: 'MOVE_RIGHT', hold: true });
+  });
+
+  it('should treat symmetric orientations as the same placement', () => {
+    const spawn = srs.getSpawnPosition(TetrominoType.O);
+    expect(findFinesseSequence(srs, TetrominoType.O, spawn.x, RotationState.DOUBLE)).toEqual([]);
+  });
+
+  it('should return null for placements outside the board', () => {
+    expect(findFinesseSequence(srs, TetrominoType.T, 20, RotationState.SPAWN)).toBeNull();
+  });
+});
@@ -1,6 +1,48 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { Game, InputAction, GameEvent } from '../game';
-import { GameState, TetrominoType, BOARD_WIDTH, TOTAL_HEIGHT } from '@/types/tetris';
+import { Game, GameOptions, InputAction, GameEvent } from '../game';
+import {
+  GameState,
+  TetrominoType,
+  TSpinType,
+  LockResetMode,
+  GameOverReason,
+  GameModeType,
+  RandomizerType,
+  Cell,
+  DEFAULT_HANDLING,
+  SDF_INSTANT,
+  BOARD_WIDTH,
+  TOTAL_HEIGHT,
+} from '@/types/tetris';
+
+/**
+ * Fill the bottom row around the spawned I and hard drop it for a single
+ */
+function clearSingle(target: Game): void {
+  const grid = target.getBoard().getGrid();
+  for (let x = 0; x < BOARD_WIDTH; x++) {
+    if (x < 3 || x > 6) grid[TOTAL_HEIGHT - 1][x] = TetrominoType.O;
+  }
+  target.handleInput(InputAction.HARD_DROP, true);
+}
+
+/**
+ * Start a game dealing only the given piece
+ */
+function startGame(type: TetrominoType, options: GameOptions = {}): Game {
+  const started = new Game({ ...options, randomizer: RandomizerType.FIXED, pieceSequence: [type] });
+  started.start();
+  return started;
+}
+
+function stepFrames(target: Game, frames: number): void {
+  for (let i = 0; i < frames; i++) target.step();
+}
+
+function tap(target: Game, action: InputAction): void {
+  target.handleInput(action, true);
+  target.handleInput(action, false);
+}
 
 describe('Game', () => {
   let game: Game;
@@ -89,6 +131,15 @@ describe('Game', () => {
       expect(newRotation).toBe((initialRotation + 3) % 4);
     });
 
+    it('should rotate piece 180 degrees', () => {
+      const initialRotation = game.getCurrentPiece()!.rotation;
+      
+      game.handleInput(InputAction.ROTATE_180, true);
+      
+      const newRotation = game.getCurrentPiece()!.rotation;
+      expect(newRotation).toBe((initialRotation + 2) % 4);
+    });
+
     it('should soft drop piece', () => {
       const initialY = game.getCurrentPiece()!.position.y;
       const initialScore = game.getStats().score;
@@ -117,6 +168,66 @@ describe('Game', () => {
     });
   });
 
+  describe('game over', () => {
+    /**
+     * Start a game dealing the given pieces and record game over events
+     */
+    function startSequence(pieceSequence: TetrominoType[]) {
+      const seqGame = new Game({ randomizer: RandomizerType.FIXED, pieceSequence });
+      const events: GameEvent[] = [];
+      seqGame.on('game_over', (event) => events.push(event));
+      seqGame.start();
+      return { game: seqGame, events };
+    }
+
+    it('should block out when the next piece cannot spawn', () => {
+      const { game: seqGame, events } = startSequence([TetrominoType.I, TetrominoType.T]);
+      // Slide the I clear of the T spawn area, then block the T spawn cell
+      for (let i = 0; i < 3; i++) seqGame.handleInput(InputAction.MOVE_RIGHT, true);
+      seqGame.getBoard().getGrid()[2][4] = TetrominoType.O;
+
+      seqGame.handleInput(InputAction.HARD_DROP, true);
+
+      expect(seqGame.getState()).toBe(GameState.GAME_OVER);
+      expect(seqGame.getGameOverReason()).toBe(GameOverReason.BLOCK_OUT);
+      expect(events).toHaveLength(1);
+      expect(events[0].data.reason).toBe(GameOverReason.BLOCK_OUT);
+    });
+
+    it('should block out when a held piece cannot spawn', () => {
+      const { game: seqGame } = startSequence([TetrominoType.T, TetrominoType.I]);
+      seqGame.handleInput(InputAction.HOLD, true);
+      seqGame.handleInput(InputAction.HARD_DROP, true);
+
+      // The hold slot T comes back into a blocked spawn area
+      seqGame.getBoard().getGrid()[2][4] = TetrominoType.O;
+      seqGame.handleInput(InputAction.HOLD, true);
+
+      expect(seqGame.getGameOverReason()).toBe(GameOverReason.BLOCK_OUT);
+    });
+
+    it('should lock out when a piece locks entirely above the visible field', () => {
+      const { game: seqGame, events } = startSequence([TetrominoType.I]);
+      // Support the spawned I right at the top of the visible field
+      for (let x = 3; x <= 6; x++) seqGame.getBoard().getGrid()[2][x] = TetrominoType.O;
+
+      seqGame.handleInput(InputAction.HARD_DROP, true);
+
+      expect(seqGame.getState()).toBe(GameState.GAME_OVER);
+      expect(events[0].data.reason).toBe(GameOverReason.LOCK_OUT);
+    });
+
+    it('should not lock out when the piece reaches the visible field', () => {
+      const { game: seqGame } = startSequence([TetrominoType.T]);
+      for (let x = 0; x < BOARD_WIDTH; x++) seqGame.getBoard().getGrid()[4][x] = TetrominoType.O;
+
+      seqGame.handleInput(InputAction.HARD_DROP, true);
+
+      expect(seqGame.getState()).toBe(GameState.PLAYING);
+      expect(seqGame.getGameOverReason()).toBeNull();
+    });
+  });
+
   describe('hold functionality', () => {
     beforeEach(() => {
       game.start();
@@ -265,11 +376,152 @@ describe('Game', () => {
       expect(game.getStats().lines).toBe(999);
       
       // Next piece lock should trigger completion
-      (game as any).lockCurrentPiece();
+      game.handleInput(InputAction.HARD_DROP, true);
       expect(game.getState()).toBe(GameState.COMPLETED);
     });
   });
 
+  describe('T-spins', () => {
+    /**
+     * Start a T-only game with a T-spin double slot at the bottom-middle of the board
+     * @param hole Extra empty column in the bottom two rows, preventing the clears
+     */
+    function setUpTSpinDouble(hole?: number): Game {
+      const tGame = startGame(TetrominoType.T);
+
+      const grid = tGame.getBoard().getGrid();
+      for (let x = 0; x < BOARD_WIDTH; x++) {
+        if (x === hole) continue;
+        if (x !== 4) grid[TOTAL_HEIGHT - 1][x] = TetrominoType.I;
+        if (x < 3 || x > 5) grid[TOTAL_HEIGHT - 2][x] = TetrominoType.I;
+      }
+      grid[TOTAL_HEIGHT - 3][3] = TetrominoType.I;
+
+      tGame.getCurrentPiece()!.position = { x: 3, y: TOTAL_HEIGHT - 3 };
+      tGame.handleInput(InputAction.ROTATE_180, true);
+      tGame.handleInput(InputAction.HARD_DROP, true);
+      return tGame;
+    }
+
+    it('should score a T-spin double and count it', () => {
+      const tGame = setUpTSpinDouble();
+
+      const stats = tGame.getStats();
+      expect(stats.lines).toBe(2);
+      expect(stats.tSpins).toBe(1);
+      expect(stats.score).toBe(1200 + 50);
+      expect(stats.backToBack).toBe(true);
+    });
+
+    it('should report the T-spin type, lines and points in the event', () => {
+      const events: GameEvent[] = [];
+      const tGame = new Game({ randomizer: RandomizerType.FIXED, pieceSequence: [TetrominoType.T] });
+      tGame.on('tspin', (event) => events.push(event));
+      tGame.start();
+      const grid = tGame.getBoard().getGrid();
+      for (let x = 0; x < BOARD_WIDTH; x++) {
+        if (x !== 4) grid[TOTAL_HEIGHT - 1][x] = TetrominoType.I;
+      }
+      grid[TOTAL_HEIGHT - 3][3] = TetrominoType.I;
+
+      tGame.getCurrentPiece()!.position = { x: 3, y: TOTAL_HEIGHT - 3 };
+      tGame.handleInput(InputAction.ROTATE_180, true);
+      tGame.handleInput(InputAction.HARD_DROP, true);
+
+      expect(events).toHaveLength(1);
+      expect(events[0].data).toMatchObject({
+        type: TSpinType.FULL,
+        lines: 1,
+        score: 800 + 50,
+        backToBack: false,
+      });
+    });
+
+    it('should score a zero-line T-spin without touching back-to-back', () => {
+      const tGame = setUpTSpinDouble(0);
+
+      const stats = tGame.getStats();
+      expect(stats.lines).toBe(0);
+      expect(stats.tSpins).toBe(1);
+      expect(stats.score).toBe(400);
+      expect(stats.backToBack).toBe(false);
+      expect(stats.combo).toBe(0);
+    });
+
+    /**
+     * Score a clear through the private line clear handler
+     */
+    function scoreClear(target: Game, lines: number, tSpin?: TSpinType): void {
+      (target as unknown as { handleLineClears(lines: number, tSpin?: TSpinType): void }).handleLineClears(lines, tSpin);
+    }
+
+    it('should chain back-to-back between T-spins and tetrises', () => {
+      game.start();
+
+      scoreClear(game, 2, TSpinType.FULL);
+      const afterDouble = game.getStats().score;
+      scoreClear(game, 4);
+
+      // 800 * 1.5 plus the 2-combo bonus
+      expect(game.getStats().score - afterDouble).toBe(1200 + 100);
+      expect(game.getStats().backToBack).toBe(true);
+    });
+
+    it('should break back-to-back on a plain clear but not on a mini', () => {
+      game.start();
+
+      scoreClear(game, 4);
+      scoreClear(game, 1, TSpinType.MINI);
+      expect(game.getStats().backToBack).toBe(true);
+      expect(game.getStats().tSpinMinis).toBe(1);
+
+      scoreClear(game, 1);
+      expect(game.getStats().backToBack).toBe(false);
+    });
+  });
+
+  describe('perfect clears', () => {
+    /**
+     * Start an I-only game with the bottom rows filled except under the spawned I
+     */
+    function setUpPerfectClear(rows: number): Game {
+      const iGame = startGame(TetrominoType.I);
+
+      const grid = iGame.getBoard().getGrid();
+      for (let y = TOTAL_HEIGHT - rows; y < TOTAL_HEIGHT; y++) {
+        for (let x = 0; x < BOARD_WIDTH; x++) {
+          if (x < 3 || x > 6) grid[y][x] = TetrominoType.O;
+        }
+      }
+      return iGame;
+    }
+
+    it('should award the bonus and emit an event when the board is emptied', () => {
+      const iGame = setUpPerfectClear(1);
+      const events: GameEvent[] = [];
+      iGame.on('perfect_clear', (event) => events.push(event));
+
+      iGame.handleInput(InputAction.HARD_DROP, true);
+
+      expect(iGame.getBoard().isEmpty()).toBe(true);
+      expect(iGame.getStats().perfectClears).toBe(1);
+      expect(events).toHaveLength(1);
+      expect(events[0].data).toMatchObject({ lines: 1, score: 800, backToBack: false });
+    });
+
+    it('should not fire when blocks remain', () => {
+      const iGame = setUpPerfectClear(2);
+      const events: GameEvent[] = [];
+      iGame.on('perfect_clear', (event) => events.push(event));
+
+      iGame.handleInput(InputAction.HARD_DROP, true);
+
+      expect(iGame.getStats().lines).toBe(1);
+      expect(iGame.getStats().perfectClears).toBe(0);
+      expect(events).toHaveLength(0);
+    });
+  });
+
   describe('event system', () => {
     it('should emit events', () => {
       const events: GameEvent[] = [];
@@ -285,6 +537,27 @@ describe('Game', () => {
       expect(events[0].type).toBe('line_clear');
     });
 
+    it('should flag T-spins made with a 180 rotation', () => {
+      const tGame = new Game({ randomizer: RandomizerType.FIXED, pieceSequence: [TetrominoType.T] });
+      const events: GameEvent[] = [];
+      tGame.on('tspin', (event) => events.push(event));
+      tGame.start();
+
+      const grid = tGame.getBoard().getGrid();
+      for (let x = 0; x < BOARD_WIDTH; x++) {
+        if (x !== 4) grid[TOTAL_HEIGHT - 1][x] = TetrominoType.I;
+      }
+      grid[TOTAL_HEIGHT - 3][3] = TetrominoType.I;
+
+      // Place the upright T just above the slot, then flip it in
+      tGame.getCurrentPiece()!.position = { x: 3, y: TOTAL_HEIGHT - 3 };
+      tGame.handleInput(InputAction.ROTATE_180, true);
+      tGame.handleInput(InputAction.HARD_DROP, true);
+
+      expect(events).toHaveLength(1);
+      expect(events[0].data.rotation180).toBe(true);
+    });
+
     it('should handle multiple listeners', () => {
       let count1 = 0;
       let count2 = 0;
@@ -344,6 +617,183 @@ describe('Game', () => {
     });
   });
 
+  describe('lock delay resets', () => {
+    /**
+     * Start a T-only game, soft drop the piece onto the stack and wait for it to land
+     */
+    function landPiece(lockReset: LockResetMode, setUp?: (grid: Cell[][]) => void) {
+      const tGame = new Game({ randomizer: RandomizerType.FIXED, pieceSequence: [TetrominoType.T], lockReset });
+      const result = { game: tGame, locks: 0 };
+      tGame.on('piece_lock', () => result.locks++);
+      tGame.start();
+      setUp?.(tGame.getBoard().getGrid());
+
+      for (let i = 0; i < TOTAL_HEIGHT; i++) {
+        tGame.handleInput(InputAction.SOFT_DROP, true);
+      }
+      tGame.handleInput(InputAction.SOFT_DROP, false);
+      stepUntilLanded(tGame);
+      return result;
+    }
+
+    function stepUntilLanded(target: Game): void {
+      for (let i = 0; i < 100 && !target.getCurrentPiece()!.locked; i++) {
+        target.step();
+      }
+    }
+
+    // Lock delay is 30 frames; 20 frames between moves keeps the piece alive only if each move resets it
+    const GAP = 20;
+
+    it('should allow 15 resets with extended placement, then stop resetting', () => {
+      const result = landPiece(LockResetMode.EXTENDED);
+
+      for (let i = 0; i < 15; i++) {
+        tap(result.game, i % 2 === 0 ? InputAction.MOVE_LEFT : InputAction.MOVE_RIGHT);
+        stepFrames(result.game, GAP);
+      }
+      expect(result.locks).toBe(0);
+
+      tap(result.game, InputAction.MOVE_LEFT);
+      stepFrames(result.game, GAP);
+      expect(result.locks).toBe(1);
+    });
+
+    it('should count rotations toward the extended placement limit', () => {
+      // A notch under the T lets it rotate in place without kicking up
+      const result = landPiece(LockResetMode.EXTENDED, (grid) => {
+        for (let x = 0; x < BOARD_WIDTH; x++) {
+          grid[TOTAL_HEIGHT - 1][x] = TetrominoType.O;
+          if (x !== 4) grid[TOTAL_HEIGHT - 2][x] = TetrominoType.O;
+        }
+      });
+
+      for (let i = 0; i < 15; i++) {
+        tap(result.game, i % 2 === 0 ? InputAction.ROTATE_CW : InputAction.ROTATE_CCW);
+        stepFrames(result.game, GAP);
+      }
+      tap(result.game, InputAction.ROTATE_CW);
+      stepFrames(result.game, GAP);
+
+      expect(result.locks).toBe(1);
+    });
+
+    it('should not let kicks off the floor bypass the extended placement limit', () => {
+      // On a flat floor each rotation kicks the T up a row, so gravity keeps relanding it
+      const result = landPiece(LockResetMode.EXTENDED);
+
+      for (let i = 0; i < 40 && result.locks === 0; i++) {
+        tap(result.game, i % 2 === 0 ? InputAction.ROTATE_CW : InputAction.ROTATE_CCW);
+        stepFrames(result.game, 5);
+      }
+      expect(result.locks).toBe(1);
+    });
+
+    it('should lock on touchdown once the allowance is spent', () => {
+      const result = landPiece(LockResetMode.EXTENDED);
+
+      for (let i = 0; i < 15; i++) {
+        tap(result.game, i % 2 === 0 ? InputAction.MOVE_LEFT : InputAction.MOVE_RIGHT);
+        stepFrames(result.game, 2);
+      }
+
+      // Kick the T off the floor and let gravity land it again
+      let frame = 0;
+      let landedAt = -1;
+      let lockedAt = -1;
+      result.game.on('piece_landing', () => (landedAt = frame));
+      result.game.on('piece_lock', () => (lockedAt = frame));
+      tap(result.game, InputAction.ROTATE_CW);
+      tap(result.game, InputAction.ROTATE_CCW);
+      for (; frame < 100 && lockedAt < 0; frame++) result.game.step();
+
+      expect(landedAt).toBeGreaterThan(0);
+      expect(lockedAt).toBe(landedAt);
+    });
+
+    it('should restore the allowance when the piece reaches a new lowest row', () => {
+      // A ledge under the left half of the spawn position
+      const result = landPiece(LockResetMode.EXTENDED, (grid) => {
+        for (let x = 0; x <= 3; x++) grid[TOTAL_HEIGHT - 1][x] = TetrominoType.O;
+      });
+      const { game: tGame } = result;
+
+      for (let i = 0; i < 14; i++) {
+        tap(tGame, i % 2 === 0 ? InputAction.MOVE_LEFT : InputAction.MOVE_RIGHT);
+        stepFrames(tGame, GAP);
+      }
+
+      // The 15th move slides off the ledge and the piece falls a row
+      tap(tGame, InputAction.MOVE_RIGHT);
+      tGame.step();
+      stepUntilLanded(tGame);
+      expect(tGame.getCurrentPiece()!.position.y).toBe(TOTAL_HEIGHT - 2);
+
+      for (let i = 0; i < 10; i++) {
+        tap(tGame, i % 2 === 0 ? InputAction.MOVE_RIGHT : InputAction.MOVE_LEFT);
+        stepFrames(tGame, GAP);
+      }
+      expect(result.locks).toBe(0);
+    });
+
+    it('should reset on every move in infinite mode', () => {
+      const result = landPiece(LockResetMode.INFINITE);
+
+      for (let i = 0; i < 40; i++) {
+        tap(result.game, i % 2 === 0 ? InputAction.MOVE_LEFT : InputAction.MOVE_RIGHT);
+        stepFrames(result.game, GAP);
+      }
+
+      expect(result.locks).toBe(0);
+    });
+
+    it('should ignore moves in step reset mode', () => {
+      const result = landPiece(LockResetMode.STEP);
+
+      stepFrames(result.game, GAP);
+      tap(result.game, InputAction.MOVE_LEFT);
+      stepFrames(result.game, 15);
+
+      expect(result.locks).toBe(1);
+    });
+  });
+
+  describe('fixed timestep', () => {
+    it('should advance the same number of frames regardless of update rate', () => {
+      const fast = new Game({ seed: 7 });
+      const slow = new Game({ seed: 7 });
+      fast.start();
+      slow.start();
+
+      for (let i = 0; i < 144; i++) fast.update(1000 / 144);
+      for (let i = 0; i < 30; i++) slow.update(1000 / 30);
+
+      expect(Math.abs(fast.getFrame() - slow.getFrame())).toBeLessThanOrEqual(1);
+      expect(fast.getCurrentPiece()!.position.y).toBe(slow.getCurrentPiece()!.position.y);
+    });
+
+    it('should not advance frames while paused', () => {
+      game.start();
+      game.handleInput(InputAction.PAUSE, true);
+      game.update(1000);
+
+      expect(game.getFrame()).toBe(0);
+    });
+
+    it('should blend a single-row drop for rendering', () => {
+      game.start();
+      const startY = game.getCurrentPiece()!.position.y;
+
+      game.update(800); // Exactly one gravity drop at level 0
+      game.update(8);
+
+      const rendered = game.getInterpolatedPiecePosition()!;
+      expect(game.getCurrentPiece()!.position.y).toBe(startY + 1);
+      expect(rendered.y).toBeGreaterThan(startY);
+      expect(rendered.y).toBeLessThan(startY + 1);
+    });
+  });
+
   describe('DAS (Delayed Auto Shift)', () => {
     it('should auto-repeat movement after delay', () => {
       game.start();
@@ -380,4 +830,549 @@ describe('Game', () => {
       expect(game.getCurrentPiece()!.position.x).toBe(currentX);
     });
   });
+
+  describe('handling settings', () => {
+    it('should auto-shift after the configured DAS and repeat at the configured ARR', () => {
+      // 100 ms DAS = 6 frames, 50 ms ARR = 3 frames
+      const tGame = startGame(TetrominoType.T, { handling: { das: 100, arr: 50 } });
+      const startX = tGame.getCurrentPiece()!.position.x;
+
+      tGame.handleInput(InputAction.MOVE_LEFT, true);
+      stepFrames(tGame, 8);
+      expect(tGame.getCurrentPiece()!.position.x).toBe(startX - 1);
+
+      stepFrames(tGame, 1);
+      expect(tGame.getCurrentPiece()!.position.x).toBe(startX - 2);
+
+      stepFrames(tGame, 3);
+      expect(tGame.getCurrentPiece()!.position.x).toBe(startX - 3);
+    });
+
+    it('should slide to the wall at once with an ARR of 0', () => {
+      const tGame = startGame(TetrominoType.T, { handling: { das: 100, arr: 0 } });
+
+      tGame.handleInput(InputAction.MOVE_RIGHT, true);
+      stepFrames(tGame, 6);
+
+      expect(tGame.getCurrentPiece()!.position.x).toBe(BOARD_WIDTH - 3);
+    });
+
+    it('should hold off auto-shift for the DAS cut delay after a spawn', () => {
+      const tGame = startGame(TetrominoType.T, { handling: { das: 0, arr: 0, dcd: 100 } });
+      tGame.handleInput(InputAction.MOVE_RIGHT, true);
+      stepFrames(tGame, 10);
+      tGame.handleInput(InputAction.HARD_DROP, true);
+      const spawnX = tGame.getCurrentPiece()!.position.x;
+
+      stepFrames(tGame, 5);
+      expect(tGame.getCurrentPiece()!.position.x).toBe(spawnX);
+
+      stepFrames(tGame, 1);
+      expect(tGame.getCurrentPiece()!.position.x).toBe(BOARD_WIDTH - 3);
+    });
+
+    it('should soft drop at a multiple of gravity', () => {
+      // Level 0 gravity is 48 frames per row, so SDF 4 drops every 12 frames
+      const tGame = startGame(TetrominoType.T, { handling: { sdf: 4 } });
+      const startY = tGame.getCurrentPiece()!.position.y;
+
+      tGame.handleInput(InputAction.SOFT_DROP, true);
+      stepFrames(tGame, 24);
+
+      expect(tGame.getCurrentPiece()!.position.y).toBe(startY + 3);
+    });
+
+    it('should drop to the floor immediately with an instant SDF', () => {
+      const tGame = startGame(TetrominoType.T, { handling: { sdf: SDF_INSTANT } });
+
+      tGame.handleInput(InputAction.SOFT_DROP, true);
+      stepFrames(tGame, 1);
+
+      expect(tGame.getCurrentPiece()!.position).toEqual(tGame.getGhostPosition());
+    });
+
+    it('should apply new handling from the next start', () => {
+      const tGame = startGame(TetrominoType.T, { handling: { das: 100 } });
+
+      tGame.setHandling({ ...DEFAULT_HANDLING, das: 50 });
+      expect(tGame.getHandling().das).toBe(100);
+
+      tGame.start();
+      expect(tGame.getHandling().das).toBe(50);
+    });
+  });
+
+  describe('sprint mode', () => {
+    it('should hold the first piece and the timer until the countdown ends', () => {
+      const phases: string[] = [];
+      const sprint = new Game({ mode: GameModeType.SPRINT });
+      sprint.on('countdown', (event) => phases.push(event.data.phase));
+      sprint.start();
+
+      stepFrames(sprint, 89);
+      expect(sprint.getCurrentPiece()).toBeNull();
+      expect(phases).toEqual(['ready']);
+
+      stepFrames(sprint, 1);
+      expect(sprint.getCurrentPiece()).not.toBeNull();
+      expect(sprint.getElapsedTime()).toBe(0);
+      expect(phases).toEqual(['ready', 'go']);
+    });
+
+    it('should finish at 40 lines with a split every 10 lines', () => {
+      const sprint = startGame(TetrominoType.I, { mode: GameModeType.SPRINT });
+      const splits: GameEvent[] = [];
+      const completions: GameEvent[] = [];
+      sprint.on('split', (event) => splits.push(event));
+      sprint.on('game_complete', (event) => completions.push(event));
+      stepFrames(sprint, 90);
+
+      for (let i = 0; i < 40; i++) {
+        stepFrames(sprint, 6);
+        clearSingle(sprint);
+      }
+
+      expect(sprint.getState()).toBe(GameState.COMPLETED);
+      expect(sprint.getStats().pieces).toBe(40);
+      expect(splits.map(event => event.data.lines)).toEqual([10, 20, 30, 40]);
+      expect(sprint.getSplits()).toEqual([1000, 2000, 3000, 4000]);
+      expect(completions).toHaveLength(1);
+      expect(completions[0].data).toEqual({ mode: GameModeType.SPRINT, time: 4000 });
+    });
+
+    it('should keep playing past 40 lines in Marathon', () => {
+      const marathon = startGame(TetrominoType.I);
+
+      for (let i = 0; i < 40; i++) clearSingle(marathon);
+
+      expect(marathon.getState()).toBe(GameState.PLAYING);
+      expect(marathon.getSplits()).toEqual([]);
+    });
+  });
+
+  describe('ultra mode', () => {
+    it('should end in TIME_UP when the two minutes run out', () => {
+      const ultra = new Game({
+        mode: GameModeType.ULTRA,
+        randomizer: RandomizerType.FIXED,
+        pieceSequence: [TetrominoType.I],
+      });
+      const events: GameEvent[] = [];
+      ultra.on('time_up', (event) => events.push(event));
+      ultra.on('game_over', (event) => events.push(event));
+      ultra.start();
+      stepFrames(ultra, 90);
+      expect(ultra.getRemainingTime()).toBe(120000);
+
+      // 120 s is 7200 frames; keep the board clear along the way
+      for (let i = 0; i < 119; i++) {
+        stepFrames(ultra, 60);
+        clearSingle(ultra);
+      }
+      stepFrames(ultra, 59);
+      expect(ultra.getState()).toBe(GameState.PLAYING);
+
+      stepFrames(ultra, 1);
+      expect(ultra.getState()).toBe(GameState.TIME_UP);
+      expect(ultra.getRemainingTime()).toBe(0);
+      expect(events).toHaveLength(1);
+      expect(events[0].type).toBe('time_up');
+      expect(events[0].data).toEqual({ mode: GameModeType.ULTRA, score: ultra.getStats().score });
+    });
+
+    it('should have no time limit outside timed modes', () => {
+      game.start();
+      expect(game.getRemainingTime()).toBeNull();
+    });
+  });
+
+  describe('master mode', () => {
+    function startMaster(): Game {
+      const master = startGame(TetrominoType.I, { mode: GameModeType.MASTER });
+      stepFrames(master, 90);
+      return master;
+    }
+
+    it('should wait out the line clear delay and ARE before the next piece', () => {
+      const master = startMaster();
+
+      clearSingle(master);
+      expect(master.getCurrentPiece()).toBeNull();
+
+      // 40 frames of line clear delay plus 25 of ARE
+      stepFrames(master, 64);
+      expect(master.getCurrentPiece()).toBeNull();
+      stepFrames(master, 1);
+      expect(master.getCurrentPiece()).not.toBeNull();
+    });
+
+    it('should count one level per piece plus one per line', () => {
+      const master = startMaster();
+
+      clearSingle(master);
+
+      expect(master.getStats().level).toBe(2);
+    });
+
+    it('should hold the level at 99 until a line is cleared', () => {
+      const master = startMaster();
+      const sections: GameEvent[] = [];
+      master.on('section', (event) => sections.push(event));
+
+      for (let i = 0; i < 50; i++) {
+        clearSingle(master);
+        stepFrames(master, 65);
+      }
+      expect(master.getStats().level).toBe(99);
+
+      master.handleInput(InputAction.HARD_DROP, true);
+      stepFrames(master, 25);
+      expect(master.getStats().level).toBe(99);
+      expect(sections).toHaveLength(0);
+
+      // Filling around the stranded I completes its row
+      clearSingle(master);
+      expect(master.getStats().level).toBe(101);
+      expect(sections).toHaveLength(1);
+      expect(sections[0].data.section).toBe(0);
+    });
+
+    it('should keep charging DAS during ARE', () => {
+      const master = startMaster();
+      clearSingle(master);
+
+      master.handleInput(InputAction.MOVE_LEFT, true);
+      stepFrames(master, 65);
+
+      // DAS (14 frames) charged while waiting, so the new piece auto-shifts after one ARR interval
+      stepFrames(master, 3);
+      expect(master.getCurrentPiece()!.position.x).toBeLessThan(3);
+    });
+  });
+
+  describe('dig mode', () => {
+    it('should start with the board filled with garbage', () => {
+      const dig = new Game({ mode: GameModeType.DIG });
+      dig.start();
+
+      expect(dig.getBoard().countGarbageRows()).toBe(10);
+    });
+
+    it('should stop the clock when the last garbage row is cleared', () => {
+      const dig = new Game({
+        mode: GameModeType.DIG,
+        garbageRows: 1,
+        randomizer: RandomizerType.FIXED,
+        pieceSequence: [TetrominoType.O],
+      });
+      const completions: GameEvent[] = [];
+      dig.on('game_complete', (event) => completions.push(event));
+      dig.start();
+      stepFrames(dig, 90 + 60);
+
+      // Plug the hole by hand so the next lock clears the garbage row
+      const row = dig.getBoard().getGrid()[TOTAL_HEIGHT - 1];
+      row[row.indexOf(null)] = TetrominoType.J;
+      dig.handleInput(InputAction.HARD_DROP, true);
+
+      expect(dig.getState()).toBe(GameState.COMPLETED);
+      expect(completions[0].data).toEqual({ mode: GameModeType.DIG, time: 1000 });
+    });
+
+    it('should not count a dig without starting garbage as dug out', () => {
+      const dig = new Game({ mode: GameModeType.DIG, garbageRows: 0 });
+      dig.start();
+      stepFrames(dig, 90);
+      dig.handleInput(InputAction.HARD_DROP, true);
+
+      expect(dig.getState()).toBe(GameState.PLAYING);
+    });
+  });
+
+  describe('survival mode', () => {
+    function startSurvival(): Game {
+      const survival = startGame(TetrominoType.O, { mode: GameModeType.SURVIVAL });
+      stepFrames(survival, 90);
+      return survival;
+    }
+
+    it('should push garbage up at an accelerating interval', () => {
+      const survival = startSurvival();
+      const events: GameEvent[] = [];
+      survival.on('garbage', (event) => events.push(event));
+
+      // 5 s = 300 frames for the first row
+      stepFrames(survival, 299);
+      expect(events).toHaveLength(0);
+      stepFrames(survival, 1);
+      expect(events).toHaveLength(1);
+      expect(survival.getBoard().countGarbageRows()).toBe(1);
+      expect(survival.getGarbageCountdown()).toEqual({ remaining: 4750, interval: 4750 });
+    });
+
+    it('should lift a landed piece clear of the new row', () => {
+      const survival = startSurvival();
+      stepFrames(survival, 299);
+      const landedY = survival.getGhostPosition()!.y;
+      survival.getCurrentPiece()!.position = { ...survival.getGhostPosition()! };
+
+      stepFrames(survival, 1);
+
+      expect(survival.getCurrentPiece()!.position.y).toBe(landedY - 1);
+      expect(survival.getGarbageReceived()).toBe(1);
+    });
+
+    it('should top out when garbage lifts the stack past the top', () => {
+      const survival = startSurvival();
+      const grid = survival.getBoard().getGrid();
+      for (let y = 0; y < TOTAL_HEIGHT; y++) grid[y][0] = TetrominoType.I;
+
+      stepFrames(survival, 300);
+
+      expect(survival.getState()).toBe(GameState.GAME_OVER);
+      expect(survival.getGameOverReason()).toBe(GameOverReason.TOP_OUT);
+    });
+  });
+
+  describe('garbage attack', () => {
+    function clearTetris(target: Game): void {
+      const grid = target.getBoard().getGrid();
+      for (let y = TOTAL_HEIGHT - 4; y < TOTAL_HEIGHT; y++) {
+        for (let x = 0; x < BOARD_WIDTH - 1; x++) grid[y][x] = TetrominoType.O;
+      }
+      grid[TOTAL_HEIGHT - 5][0] = TetrominoType.O; // Not a perfect clear
+      target.handleInput(InputAction.ROTATE_CW, true);
+      for (let i = 0; i < BOARD_WIDTH; i++) target.handleInput(InputAction.MOVE_RIGHT, true);
+      target.handleInput(InputAction.HARD_DROP, true);
+    }
+
+    it('should raise received garbage when a piece locks without clearing', () => {
+      const versus = startGame(TetrominoType.I, { garbageDelay: 0 });
+      versus.receiveGarbage(3);
+      expect(versus.getPendingGarbage()).toBe(3);
+
+      versus.handleInput(InputAction.HARD_DROP, true);
+
+      expect(versus.getPendingGarbage()).toBe(0);
+      expect(versus.getBoard().countGarbageRows()).toBe(3);
+    });
+
+    it('should hold garbage back until the delay has passed', () => {
+      const versus = startGame(TetrominoType.I);
+      versus.receiveGarbage(2);
+
+      versus.handleInput(InputAction.HARD_DROP, true);
+
+      expect(versus.getBoard().countGarbageRows()).toBe(0);
+      expect(versus.getPendingGarbage()).toBe(2);
+    });
+
+    it('should send a Tetris as attack', () => {
+      const versus = startGame(TetrominoType.I, { garbageDelay: 0 });
+      const events: GameEvent[] = [];
+      versus.on('attack', (event) => events.push(event));
+
+      clearTetris(versus);
+
+      expect(events[0].data).toEqual({ lines: 4, total: 4 });
+      expect(versus.getStats().attack).toBe(4);
+    });
+
+    it('should cancel incoming garbage before sending', () => {
+      const versus = startGame(TetrominoType.I, { garbageDelay: 0 });
+      const sent: GameEvent[] = [];
+      versus.on('attack', (event) => sent.push(event));
+      versus.receiveGarbage(1);
+      versus.receiveGarbage(2);
+
+      clearTetris(versus);
+
+      expect(versus.getPendingGarbage()).toBe(0);
+      expect(sent[0].data).toEqual({ lines: 1, total: 4 });
+    });
+  });
+
+  describe('finesse', () => {
+    it('should count a fault when taps replace a held move', () => {
+      const tGame = startGame(TetrominoType.T);
+      for (let i = 0; i < 3; i++) {
+        tGame.handleInput(InputAction.MOVE_LEFT, true);
+        tGame.handleInput(InputAction.MOVE_LEFT, false);
+      }
+      tGame.handleInput(InputAction.HARD_DROP, true);
+
+      expect(tGame.getStats().finesseFaults).toBe(1);
+    });
+
+    it('should report the optimal sequence with each fault', () => {
+      const tGame = startGame(TetrominoType.T);
+      const events: GameEvent[] = [];
+      tGame.on('finesse_fault', (event) => events.push(event));
+
+      tGame.handleInput(InputAction.ROTATE_CW, true);
+      tGame.handleInput(InputAction.ROTATE_CW, true);
+      tGame.handleInput(InputAction.ROTATE_CW, true);
+      tGame.handleInput(InputAction.HARD_DROP, true);
+
+      expect(events).toHaveLength(1);
+      expect(events[0].data).toEqual({
+        piece: TetrominoType.T,
+        inputs: 3,
+        optimal: [{ action: 'ROTATE_CCW' }],
+        faults: 1,
+      });
+    });
+
+    it('should not count a fault for the optimal sequence', () => {
+      const tGame = startGame(TetrominoType.T);
+      tGame.handleInput(InputAction.MOVE_LEFT, true);
+      for (let i = 0; i < 20; i++) tGame.step();
+      tGame.handleInput(InputAction.HARD_DROP, true);
+
+      expect(tGame.getStats().finesseFaults).toBe(0);
+    });
+
+    it('should not judge soft-dropped pieces', () => {
+      const tGame = startGame(TetrominoType.T);
+      tGame.handleInput(InputAction.ROTATE_CW, true);
+      tGame.handleInput(InputAction.ROTATE_CCW, true);
+      tGame.handleInput(InputAction.SOFT_DROP, true);
+      tGame.handleInput(InputAction.HARD_DROP, true);
+
+      expect(tGame.getStats().finesseFaults).toBe(0);
+    });
+
+    it('should count neither keys nor faults with input stats off', () => {
+      const tGame = startGame(TetrominoType.T, { inputStats: false });
+      for (let i = 0; i < 3; i++) {
+        tGame.handleInput(InputAction.MOVE_LEFT, true);
+        tGame.handleInput(InputAction.MOVE_LEFT, false);
+      }
+      tGame.handleInput(InputAction.HARD_DROP, true);
+
+      expect(tGame.getStats().finesseFaults).toBe(0);
+      expect(tGame.getStats().keys).toBe(0);
+    });
+  });
+
+  describe('performance stats', () => {
+    it('should count key presses but not releases', () => {
+      const iGame = startGame(TetrominoType.I);
+      iGame.handleInput(InputAction.MOVE_LEFT, true);
+      iGame.handleInput(InputAction.MOVE_LEFT, false);
+      iGame.handleInput(InputAction.HARD_DROP, true);
+
+      expect(iGame.getStats().keys).toBe(2);
+      expect(iGame.getPerformanceStats().kpp).toBe(2);
+    });
+
+    it('should count locked pieces by type', () => {
+      const iGame = startGame(TetrominoType.I);
+      iGame.handleInput(InputAction.HARD_DROP, true);
+      iGame.handleInput(InputAction.HARD_DROP, true);
+
+      const stats = iGame.getStats();
+      expect(stats.pieceCounts[TetrominoType.I]).toBe(2);
+      expect(stats.pieceCounts[TetrominoType.T]).toBe(0);
+    });
+
+    it('should keep the longest combo after it breaks', () => {
+      const iGame = startGame(TetrominoType.I);
+      clearSingle(iGame);
+      clearSingle(iGame);
+      iGame.handleInput(InputAction.HARD_DROP, true);
+
+      expect(iGame.getStats().combo).toBe(0);
+      expect(iGame.getStats().maxCombo).toBe(2);
+    });
+
+    it('should count Tetrises', () => {
+      const iGame = startGame(TetrominoType.I);
+      const grid = iGame.getBoard().getGrid();
+      for (let y = TOTAL_HEIGHT - 4; y < TOTAL_HEIGHT; y++) {
+        for (let x = 1; x < BOARD_WIDTH; x++) grid[y][x] = TetrominoType.O;
+      }
+      iGame.handleInput(InputAction.ROTATE_CW, true);
+      for (let i = 0; i < BOARD_WIDTH; i++) iGame.handleInput(InputAction.MOVE_LEFT, true);
+      iGame.handleInput(InputAction.HARD_DROP, true);
+
+      expect(iGame.getStats().tetrises).toBe(1);
+      expect(iGame.getPerformanceStats().tetrisRate).toBe(1);
+    });
+  });
+
+  describe('practice undo', () => {
+    function startPractice(practice = true): Game {
+      const practiceGame = new Game({ seed: 9, practice, sound: false });
+      practiceGame.start();
+      return practiceGame;
+    }
+
+    it('should do nothing outside practice play', () => {
+      const ranked = startPractice(false);
+      ranked.handleInput(InputAction.HARD_DROP, true);
+      ranked.handleInput(InputAction.UNDO, true);
+
+      expect(ranked.getStats().pieces).toBe(1);
+      expect(ranked.getStats().undos).toBe(0);
+      expect(ranked.getUndoCount()).toBe(0);
+    });
+
+    it('should step back placement by placement', () => {
+      const practice = startPractice();
+      const first = structuredClone(practice.getCurrentPiece());
+      const queue = practice.getNextPieces(5);
+      practice.handleInput(InputAction.HARD_DROP, true);
+      practice.handleInput(InputAction.HARD_DROP, true);
+
+      practice.handleInput(InputAction.UNDO, true);
+      expect(practice.getStats().pieces).toBe(1);
+
+      practice.handleInput(InputAction.UNDO, true);
+      expect(practice.getStats().pieces).toBe(0);
+      expect(practice.getStats().undos).toBe(2);
+      expect(practice.getCurrentPiece()).toEqual(first);
+      expect(practice.getNextPieces(5)).toEqual(queue);
+      expect(practice.getBoard().isEmpty()).toBe(true);
+      expect(practice.undo()).toBe(false);
+    });
+
+    it('should give back the hold', () => {
+      const practice = startPractice();
+      const first = practice.getCurrentPiece()!.type;
+      practice.handleInput(InputAction.HOLD, true);
+      practice.handleInput(InputAction.HARD_DROP, true);
+
+      practice.handleInput(InputAction.UNDO, true);
+
+      expect(practice.getHoldPiece()).toBeNull();
+      expect(practice.isHoldAvailable()).toBe(true);
+      expect(practice.getCurrentPiece()!.type).toBe(first);
+    });
+
+    it('should keep the clock running', () => {
+      const practice = startPractice();
+      for (let i = 0; i < 30; i++) practice.step();
+      practice.handleInput(InputAction.HARD_DROP, true);
+      const frame = practice.getFrame();
+
+      practice.handleInput(InputAction.UNDO, true);
+
+      expect(practice.getFrame()).toBe(frame);
+      expect(practice.getElapsedTime()).toBeGreaterThan(0);
+    });
+
+    it('should keep the history when undo is refused', () => {
+      const practice = startPractice();
+      practice.handleInput(InputAction.HARD_DROP, true);
+      practice.handleInput(InputAction.PAUSE, true);
+
+      expect(practice.undo()).toBe(false);
+      expect(practice.getUndoCount()).toBe(1);
+
+      practice.handleInput(InputAction.PAUSE, true);
+      expect(practice.undo()).toBe(true);
+      expect(practice.getStats().pieces).toBe(0);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { createGarbageRandom, generateGarbageHoles } from '../garbage';
+import { BOARD_WIDTH } from '@/types/tetris';
+
+describe('generateGarbageHoles', () => {
+  it('should give every row a hole on the board', () => {
+    const holes = generateGarbageHoles(createGarbageRandom(1), 50, 0.5);
+    expect(holes).toHaveLength(50);
+    for (const hole of holes) {
+      expect(hole).toBeGreaterThanOrEqual(0);
+      expect(hole).toBeLessThan(BOARD_WIDTH);
+    }
+  });
+
+  it('should stack every hole into one well with no messiness', () => {
+    const holes = generateGarbageHoles(createGarbageRandom(2), 20, 0);
+    expect(new Set(holes).size).toBe(1);
+  });
+
+  it('should never line up consecutive holes at full messiness', () => {
+    const holes = generateGarbageHoles(createGarbageRandom(3), 100, 1);
+    for (let i = 1; i < holes.length; i++) {
+      expect(holes[i]).not.toBe(holes[i - 1]);
+    }
+  });
+
+  it('should continue the well from the previous hole', () => {
+    const holes = generateGarbageHoles(createGarbageRandom(4), 5, 0, 6);
+    expect(holes).toEqual([6, 6, 6, 6, 6]);
+  });
+
+  it('should be reproducible from the game seed', () => {
+    expect(generateGarbageHoles(createGarbageRandom(42), 10, 0.7)).toEqual(
+      generateGarbageHoles(createGarbageRandom(42), 10, 0.7)
+    );
+  });
+});
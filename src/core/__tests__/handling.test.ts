@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeHandling, HANDLING_LIMITS } from '../handling';
+import { DEFAULT_HANDLING, SDF_INSTANT } from '@/types/tetris';
+
+describe('normalizeHandling', () => {
+  it('should fill missing values with the defaults', () => {
+    expect(normalizeHandling()).toEqual(DEFAULT_HANDLING);
+    expect(normalizeHandling({ arr: 0 })).toEqual({ ...DEFAULT_HANDLING, arr: 0 });
+  });
+
+  it('should clamp values into range', () => {
+    const handling = normalizeHandling({ das: -10, arr: 10000, sdf: 500, dcd: 20 });
+
+    expect(handling.das).toBe(HANDLING_LIMITS.das.min);
+    expect(handling.arr).toBe(HANDLING_LIMITS.arr.max);
+    expect(handling.sdf).toBe(SDF_INSTANT);
+    expect(handling.dcd).toBe(20);
+  });
+
+  it('should ignore values that are not finite numbers', () => {
+    const handling = normalizeHandling({ das: NaN, arr: '5' as unknown as number });
+
+    expect(handling.das).toBe(DEFAULT_HANDLING.das);
+    expect(handling.arr).toBe(DEFAULT_HANDLING.arr);
+  });
+});
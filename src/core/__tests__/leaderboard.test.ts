@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareLeaderboardEntries,
+  findLeaderboardPosition,
+  createLeaderboardEntry,
+  getRuleset,
+} from '../leaderboard';
+import { Game, InputAction } from '../game';
+import {
+  GameModeType,
+  GameState,
+  LeaderboardEntry,
+  LockResetMode,
+  RotationSystemType,
+  LEADERBOARD_SIZE,
+} from '@/types/tetris';
+
+function entry(overrides: Partial<LeaderboardEntry>): LeaderboardEntry {
+  return {
+    name: 'test',
+    score: 0,
+    lines: 0,
+    level: 0,
+    time: 0,
+    date: '2024-01-01T00:00:00.000Z',
+    replayId: null,
+    undos: 0,
+    ...overrides,
+  };
+}
+
+describe('leaderboard', () => {
+  describe('compareLeaderboardEntries', () => {
+    it('should rank higher scores first', () => {
+      expect(compareLeaderboardEntries('score', entry({ score: 500 }), entry({ score: 100 }))).toBeLessThan(0);
+    });
+
+    it('should rank faster and longer times by mode', () => {
+      const quick = entry({ time: 30000 });
+      const slow = entry({ time: 60000 });
+
+      expect(compareLeaderboardEntries('fastest', quick, slow)).toBeLessThan(0);
+      expect(compareLeaderboardEntries('longest', quick, slow)).toBeGreaterThan(0);
+    });
+
+    it('should break level ties by time', () => {
+      const quick = entry({ level: 500, time: 300000 });
+      const slow = entry({ level: 500, time: 400000 });
+
+      expect(compareLeaderboardEntries('level', quick, slow)).toBeLessThan(0);
+      expect(compareLeaderboardEntries('level', entry({ level: 600, time: 900000 }), quick)).toBeLessThan(0);
+    });
+  });
+
+  describe('findLeaderboardPosition', () => {
+    it('should place ties below the earlier run', () => {
+      const entries = [entry({ score: 300 }), entry({ score: 200 }), entry({ score: 100 })];
+
+      expect(findLeaderboardPosition('score', entries, entry({ score: 200 }))).toBe(2);
+      expect(findLeaderboardPosition('score', entries, entry({ score: 50 }))).toBe(3);
+    });
+
+    it('should not place runs below a full board', () => {
+      const entries = Array.from({ length: LEADERBOARD_SIZE }, () => entry({ time: 30000 }));
+
+      expect(findLeaderboardPosition('fastest', entries, entry({ time: 40000 }))).toBeNull();
+      expect(findLeaderboardPosition('fastest', entries, entry({ time: 20000 }))).toBe(0);
+    });
+  });
+
+  describe('getRuleset', () => {
+    it('should name the default rules', () => {
+      expect(getRuleset(new Game({ sound: false }))).toBe('SRS-BAG_7-EXTENDED');
+    });
+
+    it('should use the lock reset the mode enforces', () => {
+      const game = new Game({
+        sound: false,
+        mode: GameModeType.MASTER,
+        rotationSystem: RotationSystemType.ARS,
+        lockReset: LockResetMode.INFINITE,
+      });
+
+      expect(getRuleset(game)).toBe('ARS-BAG_7-STEP');
+    });
+
+    it('should rank practice runs apart', () => {
+      expect(getRuleset(new Game({ sound: false, practice: true }))).toBe('SRS-BAG_7-EXTENDED-PRACTICE');
+    });
+  });
+
+  describe('createLeaderboardEntry', () => {
+    it('should not enter games still being played', () => {
+      const game = new Game({ sound: false });
+      game.start();
+
+      expect(createLeaderboardEntry(game)).toBeNull();
+    });
+
+    it('should enter a Marathon game that topped out', () => {
+      const game = new Game({ sound: false, seed: 1 });
+      game.start();
+      for (let i = 0; i < 100 && game.getState() === GameState.PLAYING; i++) {
+        game.handleInput(InputAction.HARD_DROP, true);
+      }
+
+      expect(game.getState()).toBe(GameState.GAME_OVER);
+      expect(createLeaderboardEntry(game)).toMatchObject({
+        score: game.getStats().score,
+        lines: 0,
+        replayId: null,
+      });
+    });
+
+    it('should only enter races that reached the goal', () => {
+      const finished = new Game({ sound: false, mode: GameModeType.SPRINT });
+      finished.start();
+      finished.finish();
+
+      expect(createLeaderboardEntry(finished)).not.toBeNull();
+
+      const toppedOut = new Game({ sound: false, seed: 1, mode: GameModeType.SPRINT });
+      toppedOut.start();
+      for (let i = 0; i < 200 && toppedOut.getState() === GameState.PLAYING; i++) {
+        toppedOut.step();
+        toppedOut.handleInput(InputAction.HARD_DROP, true);
+      }
+
+      expect(toppedOut.getState()).toBe(GameState.GAME_OVER);
+      expect(createLeaderboardEntry(toppedOut)).toBeNull();
+    });
+
+    it('should not enter versus games', () => {
+      const game = new Game({ sound: false, mode: GameModeType.VERSUS });
+      game.start();
+      game.finish();
+
+      expect(createLeaderboardEntry(game)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MasterProgression,
+  getMasterGravity,
+  getMasterDelays,
+  getMasterGrade,
+  GRAVITY_20G,
+  GRAND_MASTER,
+} from '../master';
+
+describe('Master mode', () => {
+  describe('speed curves', () => {
+    it('should ramp gravity to 20G by level 500', () => {
+      expect(getMasterGravity(0)).toBe(4);
+      expect(getMasterGravity(199)).toBe(144);
+      // The famous drop back to slow gravity at 200
+      expect(getMasterGravity(200)).toBe(4);
+      expect(getMasterGravity(499)).toBe(768);
+      expect(getMasterGravity(500)).toBe(GRAVITY_20G);
+      expect(getMasterGravity(999)).toBe(GRAVITY_20G);
+    });
+
+    it('should shorten delays by section', () => {
+      expect(getMasterDelays(0)).toEqual({ are: 25, lineAre: 25, lineClear: 40, lock: 30, das: 14 });
+      expect(getMasterDelays(550).das).toBe(8);
+      expect(getMasterDelays(750).are).toBe(16);
+      expect(getMasterDelays(950).lock).toBe(17);
+    });
+  });
+
+  describe('level counter', () => {
+    it('should rise by one per piece and stop at the end of a section', () => {
+      const progression = new MasterProgression();
+      for (let i = 0; i < 120; i++) progression.advance(0, 0, 0);
+
+      expect(progression.getLevel()).toBe(99);
+    });
+
+    it('should pass the stop with a line clear and record the section time', () => {
+      const progression = new MasterProgression();
+      for (let i = 0; i < 99; i++) progression.advance(0, 0, 0);
+
+      const sections = progression.advance(1, 61000, 0);
+
+      expect(progression.getLevel()).toBe(101);
+      expect(sections).toEqual([0]);
+      expect(progression.getSectionTimes()).toEqual([61000]);
+    });
+
+    it('should stop at 998 and finish at 999', () => {
+      const progression = new MasterProgression();
+      while (progression.getLevel() < 990) progression.advance(4, 0, 0);
+      for (let i = 0; i < 20; i++) progression.advance(0, 0, 0);
+      expect(progression.getLevel()).toBe(998);
+
+      progression.advance(1, 0, 0);
+      expect(progression.getLevel()).toBe(999);
+      expect(progression.isComplete()).toBe(true);
+      expect(progression.getSectionTimes()).toHaveLength(10);
+    });
+  });
+
+  describe('scoring', () => {
+    it('should grow the combo multiplier over consecutive clears', () => {
+      const progression = new MasterProgression();
+      // ceil((0 + 1) / 4) x 1 line x combo 1
+      expect(progression.scoreClear(1, 0, false)).toBe(1);
+      // ceil((0 + 2) / 4) x 2 lines x combo 3
+      expect(progression.scoreClear(2, 0, false)).toBe(6);
+    });
+
+    it('should add dropped rows and quadruple a bravo', () => {
+      const progression = new MasterProgression();
+      expect(progression.scoreClear(4, 5, true)).toBe((1 + 5) * 4 * 7 * 4);
+    });
+  });
+
+  describe('grades', () => {
+    it('should grade by score', () => {
+      expect(getMasterGrade(0)).toBe('9');
+      expect(getMasterGrade(12000)).toBe('1');
+      expect(getMasterGrade(21999)).toBe('S1');
+      expect(getMasterGrade(500000)).toBe('S9');
+    });
+
+    it('should award Grand Master only when every checkpoint is met', () => {
+      const fast = new MasterProgression();
+      while (!fast.isComplete()) fast.advance(4, 60000, 200000);
+      expect(fast.getGrade(200000)).toBe(GRAND_MASTER);
+
+      const slow = new MasterProgression();
+      while (!slow.isComplete()) slow.advance(4, 900000, 200000);
+      expect(slow.getGrade(200000)).toBe('S9');
+    });
+  });
+});
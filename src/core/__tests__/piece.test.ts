@@ -1,6 +1,19 @@
 import { describe, it, expect } from 'vitest';
 import { PieceData } from '../piece';
-import { TetrominoType, RotationState } from '@/types/tetris';
+import {
+  TetrominoType,
+  RotationState,
+  TSpinType,
+  BOARD_WIDTH,
+  TOTAL_HEIGHT,
+} from '@/types/tetris';
+
+/**
+ * Create an empty grid the size of the full board
+ */
+function emptyGrid(): (TetrominoType | null)[][] {
+  return Array.from({ length: TOTAL_HEIGHT }, () => Array(BOARD_WIDTH).fill(null));
+}
 
 describe('PieceData', () => {
   describe('getShape', () => {
@@ -93,6 +106,78 @@ describe('PieceData', () => {
   });
 
 
+  describe('180 rotation', () => {
+    it('should flip the rotation state', () => {
+      expect(PieceData.getRotation180(RotationState.SPAWN)).toBe(RotationState.DOUBLE);
+      expect(PieceData.getRotation180(RotationState.RIGHT)).toBe(RotationState.LEFT);
+      expect(PieceData.getRotation180(RotationState.LEFT)).toBe(RotationState.RIGHT);
+    });
+
+    it('should provide 180 kicks for every piece but O', () => {
+      for (const piece of Object.values(TetrominoType)) {
+        const kicks = PieceData.getWallKickOffsets(piece, RotationState.SPAWN, RotationState.DOUBLE);
+        expect(kicks.length > 0).toBe(piece !== TetrominoType.O);
+      }
+    });
+  });
+
+  describe('T-spin detection', () => {
+    const H = TOTAL_HEIGHT;
+
+    it('should detect a full T-spin with both front corners filled', () => {
+      const grid = emptyGrid();
+      grid[H - 1][3] = TetrominoType.I;
+      grid[H - 1][5] = TetrominoType.I;
+      grid[H - 3][3] = TetrominoType.I;
+      const shape = PieceData.getShape(TetrominoType.T, RotationState.DOUBLE);
+
+      expect(PieceData.getTSpinType(grid, shape, { x: 3, y: H - 3 }, true, false)).toBe(TSpinType.FULL);
+    });
+
+    it('should detect a mini when only one front corner is filled', () => {
+      // Upright T against the left wall and floor: both back corners are solid
+      const grid = emptyGrid();
+      grid[H - 2][0] = TetrominoType.I;
+      const shape = PieceData.getShape(TetrominoType.T, RotationState.SPAWN);
+
+      expect(PieceData.getTSpinType(grid, shape, { x: 0, y: H - 2 }, true, false)).toBe(TSpinType.MINI);
+    });
+
+    it('should upgrade a mini after a TST kick', () => {
+      const grid = emptyGrid();
+      grid[H - 2][0] = TetrominoType.I;
+      const shape = PieceData.getShape(TetrominoType.T, RotationState.SPAWN);
+
+      expect(PieceData.getTSpinType(grid, shape, { x: 0, y: H - 2 }, true, true)).toBe(TSpinType.FULL);
+    });
+
+    it('should follow the pointing direction of sideways T pieces', () => {
+      // T pointing right: the front corners are in the column to its right
+      const grid = emptyGrid();
+      const shape = PieceData.getShape(TetrominoType.T, RotationState.RIGHT);
+      const position = { x: BOARD_WIDTH - 3, y: H - 5 };
+      grid[H - 5][BOARD_WIDTH - 1] = TetrominoType.I;
+      grid[H - 3][BOARD_WIDTH - 3] = TetrominoType.I;
+      grid[H - 5][BOARD_WIDTH - 3] = TetrominoType.I;
+      expect(PieceData.getTSpinType(grid, shape, position, true, false)).toBe(TSpinType.MINI);
+
+      grid[H - 3][BOARD_WIDTH - 1] = TetrominoType.I;
+      expect(PieceData.getTSpinType(grid, shape, position, true, false)).toBe(TSpinType.FULL);
+    });
+
+    it('should require a rotation and three corners', () => {
+      const grid = emptyGrid();
+      grid[H - 1][3] = TetrominoType.I;
+      grid[H - 1][5] = TetrominoType.I;
+      grid[H - 3][3] = TetrominoType.I;
+      const shape = PieceData.getShape(TetrominoType.T, RotationState.DOUBLE);
+
+      expect(PieceData.getTSpinType(grid, shape, { x: 3, y: H - 3 }, false, false)).toBe(TSpinType.NONE);
+      grid[H - 3][3] = null;
+      expect(PieceData.getTSpinType(grid, shape, { x: 3, y: H - 3 }, true, false)).toBe(TSpinType.NONE);
+    });
+  });
+
   describe('shape validation', () => {
     it('should have valid shapes for all pieces and rotations', () => {
       const pieces = Object.values(TetrominoType);
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { SeededRandom } from '../randomizer';
+import {
+  PureRandomizer,
+  NesRandomizer,
+  TgmRandomizer,
+  FixedSequenceRandomizer,
+  createRandomizer,
+} from '../randomizer-impls';
+import { BagRandomizer } from '../bag';
+import { Game } from '../game';
+import { TetrominoType, RandomizerType } from '@/types/tetris';
+
+const SEEDED_TYPES = [
+  RandomizerType.BAG_7,
+  RandomizerType.BAG_14,
+  RandomizerType.RANDOM,
+  RandomizerType.NES,
+  RandomizerType.TGM,
+];
+
+/**
+ * Draw count pieces from a randomizer
+ */
+function draw(randomizer: { next(): TetrominoType }, count: number): TetrominoType[] {
+  return Array.from({ length: count }, () => randomizer.next());
+}
+
+describe('Randomizers', () => {
+  describe('SeededRandom', () => {
+    it('should repeat the same sequence for the same seed', () => {
+      const a = new SeededRandom(99);
+      const b = new SeededRandom(99);
+      for (let i = 0; i < 20; i++) {
+        expect(a.next()).toBe(b.next());
+      }
+    });
+
+    it('should stay in range for negative and large seeds', () => {
+      for (const seed of [-12345, Date.now(), Number.MAX_SAFE_INTEGER]) {
+        const rng = new SeededRandom(seed);
+        for (let i = 0; i < 50; i++) {
+          const value = rng.nextInt(7);
+          expect(value).toBeGreaterThanOrEqual(0);
+          expect(value).toBeLessThan(7);
+        }
+      }
+    });
+  });
+
+  describe('common behaviour', () => {
+    for (const type of SEEDED_TYPES) {
+      it(`${type} should be reproducible from its seed`, () => {
+        expect(draw(createRandomizer(type, 2024), 50)).toEqual(draw(createRandomizer(type, 2024), 50));
+      });
+
+      it(`${type} should keep preview consistent with next`, () => {
+        const randomizer = createRandomizer(type, 77);
+        const previewed = randomizer.preview(30);
+        expect(previewed).toHaveLength(30);
+        expect(draw(randomizer, 30)).toEqual(previewed);
+      });
+
+      it(`${type} should restart its sequence on reset`, () => {
+        const randomizer = createRandomizer(type, 5);
+        const first = draw(randomizer, 20);
+        randomizer.reset(5);
+        expect(draw(randomizer, 20)).toEqual(first);
+      });
+    }
+  });
+
+  describe('14-bag', () => {
+    it('should deal every piece twice per 14 pieces', () => {
+      const pieces = draw(new BagRandomizer(3, 2), 28);
+      for (let start = 0; start < 28; start += 14) {
+        const bag = pieces.slice(start, start + 14);
+        for (const type of Object.values(TetrominoType)) {
+          expect(bag.filter(p => p === type)).toHaveLength(2);
+        }
+      }
+    });
+  });
+
+  describe('pure random', () => {
+    it('should produce every piece type over a long run', () => {
+      const pieces = draw(new PureRandomizer(11), 500);
+      expect(new Set(pieces).size).toBe(7);
+    });
+  });
+
+  describe('NES', () => {
+    it('should repeat pieces less often than pure random', () => {
+      const count = 7000;
+      const repeats = (pieces: TetrominoType[]) =>
+        pieces.filter((piece, i) => i > 0 && piece === pieces[i - 1]).length;
+
+      const nes = repeats(draw(new NesRandomizer(8), count));
+      // Pure random repeats 1/7 of the time, NES roughly 1/28
+      expect(nes / count).toBeLessThan(0.08);
+      expect(nes).toBeGreaterThan(0);
+    });
+  });
+
+  describe('TGM', () => {
+    it('should never start with S, Z or O', () => {
+      for (let seed = 0; seed < 50; seed++) {
+        const first = new TgmRandomizer(seed).next();
+        expect([TetrominoType.S, TetrominoType.Z, TetrominoType.O]).not.toContain(first);
+      }
+    });
+
+    it('should rarely repeat a piece within its 4-piece history', () => {
+      const pieces = draw(new TgmRandomizer(21), 2000);
+      const inHistory = pieces.filter((piece, i) => i >= 4 && pieces.slice(i - 4, i).includes(piece));
+      expect(inHistory.length / pieces.length).toBeLessThan(0.05);
+    });
+  });
+
+  describe('fixed sequence', () => {
+    it('should deal the sequence in order and loop', () => {
+      const randomizer = new FixedSequenceRandomizer([TetrominoType.T, TetrominoType.I, TetrominoType.O]);
+      expect(draw(randomizer, 7)).toEqual([
+        TetrominoType.T,
+        TetrominoType.I,
+        TetrominoType.O,
+        TetrominoType.T,
+        TetrominoType.I,
+        TetrominoType.O,
+        TetrominoType.T,
+      ]);
+    });
+
+    it('should reject an empty sequence', () => {
+      expect(() => new FixedSequenceRandomizer([])).toThrow('must not be empty');
+    });
+  });
+
+  describe('game integration', () => {
+    it('should use the randomizer selected in the game options', () => {
+      const game = new Game({
+        randomizer: RandomizerType.FIXED,
+        pieceSequence: [TetrominoType.L, TetrominoType.J],
+      });
+      game.start();
+
+      expect(game.getCurrentPiece()!.type).toBe(TetrominoType.L);
+      expect(game.getNextPieces(3)).toEqual([TetrominoType.J, TetrominoType.L, TetrominoType.J]);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Game, InputAction, GameEvent } from '../game';
+import { ReplayRecorder, ReplayPlayer, REPLAY_VERSION, MIN_REPLAY_VERSION, serializeReplay, parseReplay } from '../replay';
+import { GameError } from '@/utils/error-handler';
+
+const TRACKED_EVENTS = ['piece_lock', 'piece_landing', 'line_clear', 'level_up', 'tspin', 'combo', 'game_over'];
+
+/**
+ * Collect the types of gameplay events emitted by a game
+ */
+function trackEvents(game: Game): string[] {
+  const events: string[] = [];
+  for (const type of TRACKED_EVENTS) {
+    game.on(type, (event: GameEvent) => events.push(event.type));
+  }
+  return events;
+}
+
+/**
+ * Play a short scripted session mixing taps, holds and gravity
+ */
+function playScript(game: Game): void {
+  const script: InputAction[] = [
+    InputAction.MOVE_LEFT,
+    InputAction.ROTATE_CW,
+    InputAction.HARD_DROP,
+    InputAction.HOLD,
+    InputAction.MOVE_RIGHT,
+    InputAction.ROTATE_CCW,
+    InputAction.SOFT_DROP,
+    InputAction.HARD_DROP,
+  ];
+
+  for (let i = 0; i < 40; i++) {
+    const action = script[i % script.length];
+    game.handleInput(action, true);
+    game.update(16.7);
+    game.update(33.4);
+    game.handleInput(action, false);
+    game.update(250);
+  }
+}
+
+describe('Replay', () => {
+  let game: Game;
+  let recorder: ReplayRecorder;
+
+  beforeEach(() => {
+    game = new Game({ seed: 4242 });
+    recorder = new ReplayRecorder(game);
+  });
+
+  describe('recording', () => {
+    it('should capture the seed and every input stamped by frame', () => {
+      game.start();
+      game.handleInput(InputAction.MOVE_LEFT, true);
+      game.update(50);
+      game.handleInput(InputAction.MOVE_LEFT, false);
+
+      const replay = recorder.getReplay();
+      expect(replay.version).toBe(REPLAY_VERSION);
+      expect(replay.seed).toBe(4242);
+      expect(replay.frames).toBe(3);
+      expect(replay.inputs).toEqual([
+        { frame: 0, action: InputAction.MOVE_LEFT, pressed: true },
+        { frame: 3, action: InputAction.MOVE_LEFT, pressed: false },
+      ]);
+    });
+
+    it('should restart recording on each game start', () => {
+      game.start();
+      game.handleInput(InputAction.MOVE_LEFT, true);
+      game.start();
+
+      expect(recorder.getReplay().inputs).toHaveLength(0);
+    });
+
+    it('should stop recording when destroyed', () => {
+      game.start();
+      recorder.destroy();
+      game.handleInput(InputAction.MOVE_LEFT, true);
+
+      expect(recorder.getReplay().inputs).toHaveLength(0);
+    });
+  });
+
+  describe('playback', () => {
+    it('should reproduce the board, stats and events of the recorded game', () => {
+      const recordedEvents = trackEvents(game);
+      game.start();
+      playScript(game);
+
+      const player = new ReplayPlayer(parseReplay(serializeReplay(recorder.getReplay())));
+      const replayedEvents = trackEvents(player.getGame());
+      player.start();
+      player.playToEnd();
+
+      const replayed = player.getGame();
+      expect(replayed.getBoard().getGrid()).toEqual(game.getBoard().getGrid());
+      expect(replayed.getStats()).toEqual(game.getStats());
+      expect(replayed.getCurrentPiece()).toEqual(game.getCurrentPiece());
+      expect(replayed.getHoldPiece()).toBe(game.getHoldPiece());
+      expect(replayedEvents).toEqual(recordedEvents);
+      expect(recordedEvents.length).toBeGreaterThan(0);
+    });
+
+    it('should reproduce a game recorded at a different refresh rate', () => {
+      game.start();
+      for (let i = 0; i < 30; i++) {
+        game.handleInput(InputAction.MOVE_RIGHT, i % 2 === 0);
+        for (let j = 0; j < 20; j++) {
+          game.update(1000 / 144);
+        }
+        if (i % 5 === 4) {
+          game.handleInput(InputAction.HARD_DROP, true);
+        }
+      }
+
+      const player = new ReplayPlayer(recorder.getReplay());
+      player.start();
+      while (player.advance(1000 / 30)) {
+        // Play back at 30 Hz
+      }
+
+      expect(player.getGame().getBoard().getGrid()).toEqual(game.getBoard().getGrid());
+      expect(player.getGame().getStats()).toEqual(game.getStats());
+      expect(player.getGame().getFrame()).toBe(game.getFrame());
+    });
+
+    it('should pace frames by elapsed time when advancing', () => {
+      game.start();
+      game.update(100);
+      game.handleInput(InputAction.HARD_DROP, true);
+      game.update(100);
+
+      const player = new ReplayPlayer(recorder.getReplay());
+      player.start();
+
+      expect(player.advance(50)).toBe(true);
+      expect(player.getGame().getFrame()).toBe(3);
+      expect(player.getGame().getStats().score).toBe(0);
+
+      player.advance(70);
+      expect(player.getGame().getStats().score).toBe(game.getStats().score);
+
+      expect(player.advance(100)).toBe(false);
+      expect(player.isFinished()).toBe(true);
+    });
+  });
+
+  describe('resuming', () => {
+    it('should keep recording a restored game so the replay still reproduces it', () => {
+      game.start();
+      game.handleInput(InputAction.ROTATE_CW, true);
+      game.update(50);
+      game.handleInput(InputAction.ROTATE_CW, false);
+      game.handleInput(InputAction.HARD_DROP, true);
+      game.handleInput(InputAction.HARD_DROP, false);
+      game.update(100);
+      // Saved with keys still held down
+      game.handleInput(InputAction.MOVE_LEFT, true);
+      game.handleInput(InputAction.SOFT_DROP, true);
+      game.update(100);
+
+      const restored = new Game();
+      const resumedRecorder = new ReplayRecorder(restored);
+      restored.restoreSnapshot(game.getSnapshot());
+      resumedRecorder.resume(recorder.getReplay());
+      restored.handleInput(InputAction.PAUSE, true);
+      restored.update(200);
+      restored.handleInput(InputAction.MOVE_RIGHT, true);
+      restored.handleInput(InputAction.MOVE_RIGHT, false);
+      restored.handleInput(InputAction.HARD_DROP, true);
+      restored.update(600);
+
+      const player = new ReplayPlayer(resumedRecorder.getReplay());
+      player.start();
+      player.playToEnd();
+
+      const replayed = player.getGame();
+      expect(replayed.getFrame()).toBe(restored.getFrame());
+      expect(replayed.getBoard().getGrid()).toEqual(restored.getBoard().getGrid());
+      expect(replayed.getStats()).toEqual(restored.getStats());
+      expect(replayed.getCurrentPiece()).toEqual(restored.getCurrentPiece());
+    });
+  });
+
+  describe('practice', () => {
+    it('should replay undone placements and record how many there were', () => {
+      const practice = new Game({ seed: 77, practice: true });
+      const practiceRecorder = new ReplayRecorder(practice);
+      practice.start();
+      practice.handleInput(InputAction.HARD_DROP, true);
+      practice.handleInput(InputAction.MOVE_LEFT, true);
+      practice.handleInput(InputAction.HARD_DROP, true);
+      practice.handleInput(InputAction.UNDO, true);
+      practice.handleInput(InputAction.MOVE_LEFT, false);
+      practice.handleInput(InputAction.HARD_DROP, true);
+      practice.update(100);
+
+      const replay = parseReplay(serializeReplay(practiceRecorder.getReplay()));
+      expect(replay.options.practice).toBe(true);
+      expect(replay.undos).toBe(1);
+
+      const player = new ReplayPlayer(replay);
+      player.start();
+      player.playToEnd();
+      expect(player.getGame().getBoard().getGrid()).toEqual(practice.getBoard().getGrid());
+      expect(player.getGame().getStats()).toEqual(practice.getStats());
+    });
+  });
+
+  describe('serialization', () => {
+    it('should round-trip through JSON', () => {
+      game.start();
+      game.handleInput(InputAction.ROTATE_CW, true);
+      game.update(16);
+
+      const replay = recorder.getReplay();
+      expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+    });
+
+    it('should reject unsupported versions', () => {
+      const json = JSON.stringify({ version: REPLAY_VERSION + 1, seed: 1, frames: 0, inputs: [] });
+      expect(() => parseReplay(json)).toThrow(GameError);
+    });
+
+    it('should read older versions, filling in fields they lack', () => {
+      const json = JSON.stringify({ version: MIN_REPLAY_VERSION, seed: 1, frames: 0, inputs: [] });
+      expect(parseReplay(json)).toMatchObject({ version: MIN_REPLAY_VERSION, options: {}, undos: 0 });
+
+      const timed = JSON.stringify({ version: MIN_REPLAY_VERSION - 1, seed: 1, frames: 0, inputs: [] });
+      expect(() => parseReplay(timed)).toThrow('Unsupported replay version');
+    });
+
+    it('should reject malformed inputs', () => {
+      const json = JSON.stringify({
+        version: REPLAY_VERSION,
+        seed: 1,
+        frames: 1,
+        inputs: [{ frame: 0, action: 'JUMP', pressed: true }],
+      });
+      expect(() => parseReplay(json)).toThrow('malformed');
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => parseReplay('{')).toThrow(GameError);
+    });
+  });
+});
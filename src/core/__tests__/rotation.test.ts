@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { getRotationSystem } from '../rotation';
+import { Board } from '../board';
+import { Game, InputAction } from '../game';
+import {
+  TetrominoType,
+  RotationState,
+  RotationSystemType,
+  RandomizerType,
+  Piece,
+  TOTAL_HEIGHT,
+} from '@/types/tetris';
+
+/**
+ * Build a piece for rotation tests
+ */
+function makePiece(type: TetrominoType, x: number, y: number, rotation = RotationState.SPAWN): Piece {
+  return { type, position: { x, y }, rotation, locked: false, lockTimer: 0 };
+}
+
+/**
+ * Start a game that only deals the given piece
+ */
+function startGame(rotationSystem: RotationSystemType, type: TetrominoType): Game {
+  const game = new Game({
+    rotationSystem,
+    randomizer: RandomizerType.FIXED,
+    pieceSequence: [type],
+  });
+  game.start();
+  return game;
+}
+
+describe('RotationSystem', () => {
+  describe('registry', () => {
+    it('should return a system for every type', () => {
+      for (const type of Object.values(RotationSystemType)) {
+        expect(getRotationSystem(type).type).toBe(type);
+      }
+    });
+
+    it('should give every shape four blocks in all systems', () => {
+      for (const type of Object.values(RotationSystemType)) {
+        const system = getRotationSystem(type);
+        for (const piece of Object.values(TetrominoType)) {
+          for (let rotation = 0; rotation < 4; rotation++) {
+            const blocks = system.getShape(piece, rotation).flat().filter(cell => cell === 1);
+            expect(blocks).toHaveLength(4);
+          }
+        }
+      }
+    });
+  });
+
+  describe('SRS', () => {
+    it('should kick an I piece off the left wall', () => {
+      const game = startGame(RotationSystemType.SRS, TetrominoType.I);
+      game.handleInput(InputAction.ROTATE_CW, true);
+      for (let i = 0; i < 10; i++) game.handleInput(InputAction.MOVE_LEFT, true);
+
+      game.handleInput(InputAction.ROTATE_CW, true);
+
+      expect(game.getCurrentPiece()!.rotation).toBe(RotationState.DOUBLE);
+      expect(game.getCurrentPiece()!.position.x).toBe(0);
+    });
+
+    it('should kick T pieces upward with negative y offsets', () => {
+      const kicks = getRotationSystem(RotationSystemType.SRS).getKicks(
+        TetrominoType.T,
+        RotationState.SPAWN,
+        RotationState.RIGHT
+      );
+      expect(kicks[1]).toEqual({ x: -1, y: -1 });
+      expect(kicks[2]).toEqual({ x: 0, y: 2 });
+    });
+
+    it('should lift a grounded T one row when it rotates off the floor', () => {
+      const game = startGame(RotationSystemType.SRS, TetrominoType.T);
+      for (let i = 0; i < TOTAL_HEIGHT; i++) game.handleInput(InputAction.SOFT_DROP, true);
+      const { x, y } = game.getCurrentPiece()!.position;
+
+      game.handleInput(InputAction.ROTATE_CW, true);
+
+      // The second guideline kick (one left, one up); y-up offsets would fall through to a two-row lift
+      expect(game.getCurrentPiece()!.rotation).toBe(RotationState.RIGHT);
+      expect(game.getCurrentPiece()!.position).toEqual({ x: x - 1, y: y - 1 });
+    });
+  });
+
+  describe('SRS+', () => {
+    it('should mirror I kicks between left and right rotations', () => {
+      const system = getRotationSystem(RotationSystemType.SRS_PLUS);
+      const toRight = system.getKicks(TetrominoType.I, RotationState.SPAWN, RotationState.RIGHT);
+      const toLeft = system.getKicks(TetrominoType.I, RotationState.SPAWN, RotationState.LEFT);
+
+      expect(toLeft).toEqual(toRight.map(kick => ({ x: -kick.x, y: kick.y })));
+    });
+
+    it('should provide 180 kicks', () => {
+      const system = getRotationSystem(RotationSystemType.SRS_PLUS);
+      expect(system.getKicks(TetrominoType.T, RotationState.SPAWN, RotationState.DOUBLE).length).toBeGreaterThan(0);
+      expect(system.getKicks(TetrominoType.O, RotationState.SPAWN, RotationState.DOUBLE)).toEqual([]);
+    });
+
+    it('should keep the guideline kicks for other pieces', () => {
+      const srs = getRotationSystem(RotationSystemType.SRS);
+      const plus = getRotationSystem(RotationSystemType.SRS_PLUS);
+      expect(plus.getKicks(TetrominoType.J, RotationState.RIGHT, RotationState.DOUBLE)).toEqual(
+        srs.getKicks(TetrominoType.J, RotationState.RIGHT, RotationState.DOUBLE)
+      );
+    });
+  });
+
+  describe('ARS', () => {
+    const ars = getRotationSystem(RotationSystemType.ARS);
+
+    it('should spawn T pointing down', () => {
+      expect(ars.getShape(TetrominoType.T, RotationState.SPAWN)).toEqual([
+        [0, 0, 0],
+        [1, 1, 1],
+        [0, 1, 0],
+      ]);
+    });
+
+    it('should block kicks when the center column is hit first', () => {
+      const board = new Board(ars);
+      board.getGrid()[10][1] = TetrominoType.O;
+
+      expect(ars.allowsKicks(board, makePiece(TetrominoType.T, 0, 10), RotationState.RIGHT)).toBe(false);
+    });
+
+    it('should allow kicks when a side column is hit first', () => {
+      const board = new Board(ars);
+      board.getGrid()[11][0] = TetrominoType.O;
+
+      expect(ars.allowsKicks(board, makePiece(TetrominoType.T, 0, 10), RotationState.RIGHT)).toBe(true);
+    });
+
+    it('should never kick the I piece', () => {
+      expect(ars.getKicks(TetrominoType.I, RotationState.SPAWN, RotationState.RIGHT)).toEqual([]);
+    });
+
+    it('should use its own shapes for collision', () => {
+      const board = new Board(ars);
+      // ARS T occupies rows 1-2 of its box, so it fits one row lower than SRS allows
+      expect(board.isValidPosition(TetrominoType.T, { x: 0, y: 19 }, RotationState.SPAWN)).toBe(true);
+      expect(new Board().isValidPosition(TetrominoType.T, { x: 0, y: 21 }, RotationState.SPAWN)).toBe(false);
+    });
+  });
+
+  describe('NES', () => {
+    it('should not kick an I piece off the wall', () => {
+      const game = startGame(RotationSystemType.NES, TetrominoType.I);
+      game.handleInput(InputAction.ROTATE_CW, true);
+      for (let i = 0; i < 10; i++) game.handleInput(InputAction.MOVE_LEFT, true);
+
+      game.handleInput(InputAction.ROTATE_CW, true);
+
+      expect(game.getCurrentPiece()!.rotation).toBe(RotationState.RIGHT);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { runBotGame, runReplay } from '../simulation';
+import { Game } from '../game';
+import { Bot } from '../ai';
+import { ReplayRecorder } from '../replay';
+import { GameModeType, GameState } from '@/types/tetris';
+
+describe('simulation', () => {
+  it('should play a Sprint to the goal with the bot', () => {
+    const summary = runBotGame({ seed: 1, game: { mode: GameModeType.SPRINT }, bot: { depth: 0 } });
+
+    expect(summary.end).toBe('completed');
+    expect(summary.lines).toBeGreaterThanOrEqual(40);
+    expect(summary.gameOverReason).toBeNull();
+    expect(summary.pps).toBeGreaterThan(0);
+  });
+
+  it('should give the same result for the same seed', () => {
+    const options = { seed: 7, bot: { depth: 0 }, maxFrames: 300 };
+    expect(runBotGame(options)).toEqual(runBotGame(options));
+  });
+
+  it('should pace the bot like live play by default', () => {
+    const summary = runBotGame({ seed: 2, maxFrames: 600 });
+
+    expect(summary.pieces).toBeGreaterThan(0);
+    expect(summary.pps).toBeLessThan(5);
+  });
+
+  it('should stop at the frame limit', () => {
+    const summary = runBotGame({ seed: 3, bot: { depth: 0 }, maxFrames: 100 });
+
+    expect(summary.end).toBe('frame_limit');
+    expect(summary.frames).toBe(100);
+  });
+
+  it('should reproduce a recorded game from its replay', () => {
+    const game = new Game({ seed: 5, sound: false });
+    const recorder = new ReplayRecorder(game);
+    const bot = new Bot(game, { inputDelay: 50, depth: 0 });
+    game.start();
+    for (let i = 0; i < 600 && game.getState() === GameState.PLAYING; i++) {
+      bot.update(1000 / 60);
+      game.step();
+    }
+
+    const summary = runReplay(recorder.getReplay());
+
+    expect(summary.end).toBe('replay_end');
+    expect(summary.pieces).toBe(game.getStats().pieces);
+    expect(summary.score).toBe(game.getStats().score);
+  });
+});
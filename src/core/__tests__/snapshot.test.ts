@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { Game, InputAction } from '../game';
+import { Bot } from '../ai';
+import { SNAPSHOT_VERSION, serializeSnapshot, parseSnapshot } from '../snapshot';
+import { GameModeType, GameState, RandomizerType } from '@/types/tetris';
+import { GameError } from '@/utils/error-handler';
+
+/**
+ * Let the bot play a game for a number of frames
+ */
+function playWithBot(game: Game, frames: number): void {
+  const bot = new Bot(game, { inputDelay: 0, depth: 0 });
+  for (let i = 0; i < frames && game.getState() === GameState.PLAYING; i++) {
+    bot.update(1000 / 60);
+    game.step();
+  }
+}
+
+/**
+ * Take a snapshot through JSON and restore it into a fresh game, unpaused
+ */
+function copyGame(game: Game): Game {
+  const copy = new Game({ sound: false });
+  copy.restoreSnapshot(parseSnapshot(serializeSnapshot(game.getSnapshot())));
+  copy.handleInput(InputAction.PAUSE, true);
+  return copy;
+}
+
+/**
+ * Everything visible about a game, for comparing two games
+ */
+function describeGame(game: Game) {
+  return {
+    state: game.getState(),
+    stats: game.getStats(),
+    grid: game.getBoard().getGrid(),
+    piece: game.getCurrentPiece(),
+    hold: game.getHoldPiece(),
+    next: game.getNextPieces(5),
+    time: game.getElapsedTime(),
+  };
+}
+
+describe('game snapshots', () => {
+  it('should come back paused with the same board, pieces and stats', () => {
+    const game = new Game({ seed: 3, sound: false });
+    game.start();
+    playWithBot(game, 150);
+
+    const copy = new Game({ sound: false });
+    copy.restoreSnapshot(game.getSnapshot());
+
+    expect(copy.getState()).toBe(GameState.PAUSED);
+    copy.handleInput(InputAction.PAUSE, true);
+    expect(describeGame(copy)).toEqual(describeGame(game));
+  });
+
+  it('should carry on exactly like the original game', () => {
+    const game = new Game({ seed: 11, sound: false });
+    game.start();
+    playWithBot(game, 120);
+    const copy = copyGame(game);
+
+    playWithBot(game, 240);
+    playWithBot(copy, 240);
+
+    expect(describeGame(copy)).toEqual(describeGame(game));
+  });
+
+  it.each([RandomizerType.BAG_14, RandomizerType.NES, RandomizerType.TGM, RandomizerType.RANDOM])(
+    'should continue the %s piece sequence',
+    (randomizer) => {
+      const game = new Game({ seed: 5, randomizer, sound: false });
+      game.start();
+      for (let i = 0; i < 9; i++) game.handleInput(InputAction.HARD_DROP, true);
+      const copy = copyGame(game);
+
+      expect(copy.getNextPieces(20)).toEqual(game.getNextPieces(20));
+    }
+  );
+
+  it('should keep mode progress such as Master levels and the countdown', () => {
+    const game = new Game({ seed: 2, mode: GameModeType.MASTER, sound: false });
+    game.start();
+    playWithBot(game, 200);
+    const copy = copyGame(game);
+
+    expect(copy.getMode().type).toBe(GameModeType.MASTER);
+    expect(game.getStats().level).toBeGreaterThan(0);
+    expect(copy.getStats().level).toBe(game.getStats().level);
+
+    const sprint = new Game({ seed: 2, mode: GameModeType.SPRINT, sound: false });
+    sprint.start();
+    sprint.step();
+    const sprintCopy = copyGame(sprint);
+    for (let i = 0; i < 120; i++) {
+      sprint.step();
+      sprintCopy.step();
+    }
+
+    expect(describeGame(sprintCopy)).toEqual(describeGame(sprint));
+  });
+
+  it('should reject snapshots it cannot read', () => {
+    const snapshot = new Game({ sound: false }).getSnapshot();
+
+    expect(() => parseSnapshot('{')).toThrow(GameError);
+    expect(() => parseSnapshot(JSON.stringify({ ...snapshot, version: SNAPSHOT_VERSION + 1 }))).toThrow(
+      /Unsupported snapshot version/
+    );
+    expect(() => parseSnapshot(JSON.stringify({ ...snapshot, grid: [] }))).toThrow(/wrong size/);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { getPerformanceStats } from '../stats';
+import { Game } from '../game';
+
+describe('getPerformanceStats', () => {
+  function stats(overrides: Partial<ReturnType<Game['getStats']>>) {
+    return { ...new Game({ sound: false }).getStats(), ...overrides };
+  }
+
+  it('should work out rates over the play time', () => {
+    const performance = getPerformanceStats(stats({ pieces: 30, keys: 90, attack: 20 }), 20000);
+
+    expect(performance.pps).toBe(1.5);
+    expect(performance.kpp).toBe(3);
+    expect(performance.apm).toBe(60);
+  });
+
+  it('should give the share of lines cleared by Tetrises', () => {
+    const performance = getPerformanceStats(stats({ lines: 10, tetrises: 2 }), 1000);
+
+    expect(performance.tetrisRate).toBe(0.8);
+  });
+
+  it('should report zero rates before anything has happened', () => {
+    expect(getPerformanceStats(stats({}), 0)).toEqual({
+      time: 0,
+      pps: 0,
+      kpp: 0,
+      apm: 0,
+      tetrisRate: 0,
+    });
+  });
+});
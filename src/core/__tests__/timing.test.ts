@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FixedTimestep, msToFrames } from '../timing';
+import { MAX_CATCH_UP_FRAMES } from '@/types/tetris';
+
+describe('FixedTimestep', () => {
+  let clock: FixedTimestep;
+  let steps: number;
+  const step = () => steps++;
+
+  beforeEach(() => {
+    clock = new FixedTimestep();
+    steps = 0;
+  });
+
+  it('should convert milliseconds to frames', () => {
+    expect(msToFrames(1000)).toBe(60);
+    expect(msToFrames(500)).toBe(30);
+    expect(msToFrames(50)).toBe(3);
+  });
+
+  it('should run one step per whole frame of accumulated time', () => {
+    expect(clock.advance(1000, step)).toBe(60);
+    expect(steps).toBe(60);
+  });
+
+  it('should produce the same frame count at any refresh rate', () => {
+    for (const hz of [30, 60, 144]) {
+      const rateClock = new FixedTimestep();
+      let count = 0;
+      for (let i = 0; i < hz * 2; i++) {
+        rateClock.advance(1000 / hz, () => count++);
+      }
+      expect(Math.round(count + rateClock.getAlpha())).toBe(120);
+    }
+  });
+
+  it('should carry partial frames over as the interpolation alpha', () => {
+    clock.advance(25, step);
+    expect(steps).toBe(1);
+    expect(clock.getAlpha()).toBeCloseTo(0.5);
+  });
+
+  it('should cap catch-up steps after a long stall', () => {
+    clock.advance(10000, step);
+    expect(steps).toBe(MAX_CATCH_UP_FRAMES);
+    expect(clock.getAlpha()).toBeLessThan(1);
+  });
+
+  it('should discard pending time on reset', () => {
+    clock.advance(10, step);
+    clock.reset();
+    expect(clock.getAlpha()).toBe(0);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { VersusMatch } from '../versus';
+import { Game, GameOptions, InputAction } from '../game';
+import {
+  GameState,
+  GameModeType,
+  RandomizerType,
+  TetrominoType,
+  GARBAGE,
+  BOARD_WIDTH,
+  TOTAL_HEIGHT,
+} from '@/types/tetris';
+
+function createMatch(options: GameOptions = {}): { match: VersusMatch; players: Game[] } {
+  const players = [new Game({ garbageDelay: 0, ...options }), new Game({ garbageDelay: 0, ...options })];
+  const match = new VersusMatch(players);
+  match.start(42);
+  // Run out the shared countdown
+  for (let i = 0; i < 90; i++) players.forEach(game => game.step());
+  return { match, players };
+}
+
+describe('VersusMatch', () => {
+  it('should reject anything but two players', () => {
+    expect(() => new VersusMatch([new Game()])).toThrow();
+  });
+
+  it('should start both players on the same pieces', () => {
+    const { players } = createMatch();
+    expect(players[0].getMode().type).toBe(GameModeType.VERSUS);
+    expect(players[0].getSeed()).toBe(42);
+    expect(players[1].getNextPieces(5)).toEqual(players[0].getNextPieces(5));
+    expect(players[1].getCurrentPiece()!.type).toBe(players[0].getCurrentPiece()!.type);
+  });
+
+  it('should send attack to the opponent', () => {
+    const { players } = createMatch({ randomizer: RandomizerType.FIXED, pieceSequence: [TetrominoType.O] });
+    const grid = players[0].getBoard().getGrid();
+    for (let y = TOTAL_HEIGHT - 2; y < TOTAL_HEIGHT; y++) {
+      for (let x = 0; x < BOARD_WIDTH; x++) grid[y][x] = GARBAGE;
+      grid[y][0] = null;
+      grid[y][1] = null;
+    }
+    grid[TOTAL_HEIGHT - 3][9] = GARBAGE; // Not a perfect clear
+    for (let i = 0; i < BOARD_WIDTH; i++) players[0].handleInput(InputAction.MOVE_LEFT, true);
+
+    players[0].handleInput(InputAction.HARD_DROP, true);
+
+    expect(players[0].getStats().lines).toBe(2);
+    expect(players[1].getPendingGarbage()).toBe(1);
+  });
+
+  it('should end the match when a player tops out', () => {
+    const { match, players } = createMatch();
+    const events: number[] = [];
+    match.on('match_over', (event) => events.push(event.data.winner));
+
+    const grid = players[1].getBoard().getGrid();
+    for (let y = 0; y < TOTAL_HEIGHT; y++) {
+      for (let x = 0; x < BOARD_WIDTH - 1; x++) grid[y][x] = GARBAGE;
+    }
+    players[1].handleInput(InputAction.HARD_DROP, true);
+
+    expect(players[1].getState()).toBe(GameState.GAME_OVER);
+    expect(players[0].getState()).toBe(GameState.COMPLETED);
+    expect(match.getWinner()).toBe(0);
+    expect(events).toEqual([0]);
+  });
+});
@@ -0,0 +1,524 @@
+import {
+  TetrominoType,
+  RotationState,
+  Position,
+  Piece,
+  TSpinType,
+  GameState,
+  BOARD_WIDTH,
+  TOTAL_HEIGHT,
+  HIDDEN_ROWS,
+  BOT_INPUT_DELAY,
+  BOT_DEPTH,
+} from '@/types/tetris';
+import { Board } from './board';
+import { PieceData } from './piece';
+import { Game, InputAction } from './game';
+import { calculateAttack, GUIDELINE_ATTACK_TABLE } from './attack';
+
+/**
+ * Heuristic weights; board terms come from Board.getBoardStats
+ */
+export interface AiWeights {
+  height: number;
+  holes: number;
+  bumpiness: number;
+  wells: number;
+  tSlots: number;
+  /** Per line cleared */
+  lines: number;
+  /** Per line of attack the clear sends */
+  attack: number;
+}
+
+export const DEFAULT_AI_WEIGHTS: AiWeights = {
+  height: -0.5,
+  holes: -4,
+  bumpiness: -0.2,
+  wells: -0.3,
+  tSlots: 1.5,
+  lines: 0.5,
+  attack: 1.5,
+};
+
+/**
+ * A resting place for a piece and the inputs that take it there from spawn
+ */
+export interface Placement {
+  type: TetrominoType;
+  position: Position;
+  rotation: RotationState;
+  /** Inputs ending in a hard drop; SOFT_DROP means hold it until the piece lands */
+  inputs: InputAction[];
+  tSpin: TSpinType;
+}
+
+/**
+ * The placement the AI settled on, and whether the piece is swapped through hold first
+ */
+export interface AiDecision {
+  placement: Placement;
+  hold: boolean;
+  score: number;
+}
+
+interface SearchState {
+  position: Position;
+  rotation: RotationState;
+  inputs: InputAction[];
+  /** Last input was a rotation, for T-Spin detection */
+  spun: boolean;
+  usedTstKick: boolean;
+  /** Soft dropped to the floor at least once; later moves sink straight back down */
+  dropped: boolean;
+}
+
+const SEARCH_INPUTS = [
+  InputAction.MOVE_LEFT,
+  InputAction.MOVE_RIGHT,
+  InputAction.ROTATE_CW,
+  InputAction.ROTATE_CCW,
+  InputAction.ROTATE_180,
+  InputAction.SOFT_DROP,
+];
+
+/**
+ * Sink a position to the lowest row it can reach
+ */
+function dropPosition(board: Board, type: TetrominoType, position: Position, rotation: RotationState): Position {
+  let y = position.y;
+  while (board.isValidPosition(type, { x: position.x, y: y + 1 }, rotation)) y++;
+  return { x: position.x, y };
+}
+
+/**
+ * Rotate the way Game does: unkicked first, then the rotation system's kicks
+ */
+function rotate(
+  board: Board,
+  type: TetrominoType,
+  state: SearchState,
+  to: RotationState
+): { position: Position; kick: Position | null } | null {
+  if (board.isValidPosition(type, state.position, to)) {
+    return { position: state.position, kick: null };
+  }
+
+  const rotationSystem = board.getRotationSystem();
+  const piece: Piece = { type, position: state.position, rotation: state.rotation, locked: false, lockTimer: 0 };
+  if (!rotationSystem.allowsKicks(board, piece, to)) return null;
+
+  for (const kick of rotationSystem.getKicks(type, state.rotation, to)) {
+    const position = { x: state.position.x + kick.x, y: state.position.y + kick.y };
+    if (board.isValidPosition(type, position, to)) {
+      return { position, kick };
+    }
+  }
+  return null;
+}
+
+/**
+ * Apply one input to a search state, or return null if it does nothing
+ */
+function applyInput(board: Board, type: TetrominoType, state: SearchState, action: InputAction): SearchState | null {
+  let { position, rotation } = state;
+  let spun = false;
+  let usedTstKick = false;
+  const inputs = [...state.inputs, action];
+
+  switch (action) {
+    case InputAction.MOVE_LEFT:
+    case InputAction.MOVE_RIGHT: {
+      const next = { x: position.x + (action === InputAction.MOVE_LEFT ? -1 : 1), y: position.y };
+      if (!board.isValidPosition(type, next, rotation)) return null;
+      position = next;
+      break;
+    }
+
+    case InputAction.SOFT_DROP: {
+      if (state.dropped) return null;
+      position = dropPosition(board, type, position, rotation);
+      if (position.y === state.position.y) return null;
+      return { position, rotation, inputs, spun: false, usedTstKick: false, dropped: true };
+    }
+
+    default: {
+      const to = action === InputAction.ROTATE_CW
+        ? PieceData.getNextRotationCW(rotation)
+        : action === InputAction.ROTATE_CCW
+          ? PieceData.getNextRotationCCW(rotation)
+          : PieceData.getRotation180(rotation);
+      const result = rotate(board, type, state, to);
+      if (!result) return null;
+      position = result.position;
+      rotation = to;
+      spun = true;
+      usedTstKick =
+        action !== InputAction.ROTATE_180 &&
+        result.kick !== null &&
+        Math.abs(result.kick.x) === 1 &&
+        Math.abs(result.kick.y) === 2;
+    }
+  }
+
+  // Once on the floor, a piece moved off a ledge falls back down before the next input
+  if (state.dropped) {
+    const landed = dropPosition(board, type, position, rotation);
+    if (landed.y !== position.y) {
+      position = landed;
+      inputs.push(InputAction.SOFT_DROP);
+      spun = false;
+    }
+  }
+
+  return { position, rotation, inputs, spun, usedTstKick, dropped: state.dropped };
+}
+
+/**
+ * Get the board cells a piece covers, as a key for telling placements apart
+ */
+function getCellsKey(board: Board, type: TetrominoType, position: Position, rotation: RotationState): string {
+  const shape = board.getRotationSystem().getShape(type, rotation);
+  const cells: string[] = [];
+  for (let row = 0; row < shape.length; row++) {
+    for (let col = 0; col < shape[row].length; col++) {
+      if (shape[row][col] === 1) cells.push(`${position.x + col},${position.y + row}`);
+    }
+  }
+  return cells.sort().join(' ');
+}
+
+/**
+ * Where a piece starts its search; defaults to the spawn
+ */
+export interface SearchStart {
+  position: Position;
+  rotation: RotationState;
+}
+
+/**
+ * Find every placement a piece can reach from spawn, including soft-drop tucks and spins
+ * Searched breadth-first, so each placement comes with its shortest input sequence
+ */
+export function findPlacements(board: Board, type: TetrominoType, start?: SearchStart): Placement[] {
+  const { position: origin, rotation: originRotation } = start ?? {
+    position: board.getRotationSystem().getSpawnPosition(type),
+    rotation: RotationState.SPAWN,
+  };
+  if (!board.isValidPosition(type, origin, originRotation)) return [];
+
+  const placements = new Map<string, Placement>();
+  const seen = new Set<string>();
+  const queue: SearchState[] = [{
+    position: origin,
+    rotation: originRotation,
+    inputs: [],
+    spun: false,
+    usedTstKick: false,
+    dropped: false,
+  }];
+
+  while (queue.length > 0) {
+    const state = queue.shift()!;
+    // Spin state only matters to T pieces
+    const spinKey = type === TetrominoType.T ? `${state.spun},${state.usedTstKick}` : '';
+    const key = `${state.position.x},${state.position.y},${state.rotation},${state.dropped},${spinKey}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const position = dropPosition(board, type, state.position, state.rotation);
+    const grounded = position.y === state.position.y;
+    const tSpin = grounded && type === TetrominoType.T
+      ? PieceData.getTSpinType(
+        board.getGrid(),
+        board.getRotationSystem().getShape(type, state.rotation),
+        position,
+        state.spun,
+        state.usedTstKick
+      )
+      : TSpinType.NONE;
+
+    const placementKey = `${getCellsKey(board, type, position, state.rotation)},${tSpin}`;
+    if (!placements.has(placementKey)) {
+      placements.set(placementKey, {
+        type,
+        position,
+        rotation: state.rotation,
+        inputs: [...state.inputs, InputAction.HARD_DROP],
+        tSpin,
+      });
+    }
+
+    for (const action of SEARCH_INPUTS) {
+      const next = applyInput(board, type, state, action);
+      if (next) queue.push(next);
+    }
+  }
+
+  return [...placements.values()];
+}
+
+/**
+ * Score a board with the weighted heuristic; higher is better
+ */
+export function evaluateBoard(board: Board, weights: AiWeights = DEFAULT_AI_WEIGHTS): number {
+  const stats = board.getBoardStats();
+  return (
+    weights.height * stats.height +
+    weights.holes * stats.holes +
+    weights.bumpiness * stats.bumpiness +
+    weights.wells * stats.wells +
+    weights.tSlots * stats.tSlots
+  );
+}
+
+/**
+ * Lock a placement on a copy of the board and clear its lines
+ * @returns The new board and lines cleared, or null if the placement ends the game
+ */
+function applyPlacement(board: Board, placement: Placement): { board: Board; lines: number } | null {
+  const next = board.clone();
+  next.lockPiece(placement.type, placement.position, placement.rotation);
+  if (next.isGameOver()) return null;
+
+  const grid = next.getGrid();
+  const kept = grid.filter(row => row.includes(null));
+  const lines = TOTAL_HEIGHT - kept.length;
+  if (lines === 0 && placement.position.y + getBottomRow(board, placement) < HIDDEN_ROWS) {
+    return null; // Lock out
+  }
+
+  const empty = Array.from({ length: lines }, () => Array(BOARD_WIDTH).fill(null));
+  grid.splice(0, TOTAL_HEIGHT, ...empty, ...kept);
+  return { board: next, lines };
+}
+
+/**
+ * Get the lowest occupied row of a placement's shape
+ */
+function getBottomRow(board: Board, placement: Placement): number {
+  const shape = board.getRotationSystem().getShape(placement.type, placement.rotation);
+  let bottom = 0;
+  shape.forEach((row, index) => {
+    if (row.includes(1)) bottom = index;
+  });
+  return bottom;
+}
+
+/**
+ * Score a placement, looking ahead through the preview queue
+ */
+function scorePlacement(board: Board, placement: Placement, queue: TetrominoType[], depth: number, weights: AiWeights): number {
+  const result = applyPlacement(board, placement);
+  if (!result) return -Infinity;
+
+  const attack = calculateAttack(GUIDELINE_ATTACK_TABLE, {
+    lines: result.lines,
+    tSpin: placement.tSpin,
+    backToBack: false,
+    combo: 0,
+    perfectClear: result.lines > 0 && result.board.isEmpty(),
+  });
+  const score = weights.lines * result.lines + weights.attack * attack;
+
+  if (depth === 0 || queue.length === 0) {
+    return score + evaluateBoard(result.board, weights);
+  }
+
+  const [next, ...rest] = queue;
+  let best = -Infinity;
+  for (const candidate of findPlacements(result.board, next)) {
+    best = Math.max(best, scorePlacement(result.board, candidate, rest, depth - 1, weights));
+  }
+  // No room for the next piece counts as topping out
+  return best === -Infinity ? -Infinity : score + best;
+}
+
+/**
+ * Pick the best placement for the current piece, optionally swapping it through hold
+ * @param preview Upcoming pieces, as from Game.getNextPieces; depth + 1 of them lets a hold into an empty slot look as far ahead
+ * @param depth Preview pieces to look ahead; defaults to BOT_DEPTH
+ * @param start Where the current piece is, when it has already left the spawn
+ * @returns The best decision, or null when the piece has nowhere to go
+ */
+export function findBestPlacement(
+  board: Board,
+  current: TetrominoType,
+  hold: TetrominoType | null,
+  preview: TetrominoType[],
+  options: { canHold: boolean; depth?: number; weights?: AiWeights; start?: SearchStart }
+): AiDecision | null {
+  const weights = options.weights ?? DEFAULT_AI_WEIGHTS;
+  const depth = options.depth ?? BOT_DEPTH;
+
+  const choices: { type: TetrominoType; queue: TetrominoType[]; hold: boolean; start?: SearchStart }[] = [
+    { type: current, queue: preview, hold: false, start: options.start },
+  ];
+  if (options.canHold) {
+    // An empty hold slot takes the current piece and deals the next one
+    const swapped = hold ?? preview[0];
+    if (swapped !== undefined && swapped !== current) {
+      choices.push({ type: swapped, queue: hold ? preview : preview.slice(1), hold: true });
+    }
+  }
+
+  let best: AiDecision | null = null;
+  for (const choice of choices) {
+    for (const placement of findPlacements(board, choice.type, choice.start)) {
+      const score = scorePlacement(board, placement, choice.queue, depth, weights);
+      if (!best || score > best.score) {
+        best = { placement, hold: choice.hold, score };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Bot options
+ */
+export interface BotOptions {
+  /** Time in ms between inputs (0 = the whole placement at once); defaults to BOT_INPUT_DELAY */
+  inputDelay?: number;
+  /** Preview pieces to look ahead; defaults to BOT_DEPTH */
+  depth?: number;
+  weights?: AiWeights;
+}
+
+/**
+ * Plays a game through Game.handleInput, one input at a time so it can be watched
+ */
+export class Bot {
+  private game: Game;
+  private options: BotOptions;
+  private plan: InputAction[] = [];
+  private target: Placement | null = null;
+  private piece: Piece | null = null;
+  /** Where the piece was after the last input, to notice gravity moving it */
+  private expected: SearchStart | null = null;
+  private timer = 0;
+  private softDropping = false;
+
+  constructor(game: Game, options: BotOptions = {}) {
+    this.game = game;
+    this.options = options;
+  }
+
+  /**
+   * Advance the bot; call once per rendered frame alongside Game.update
+   * @param deltaTime Time since last update in milliseconds
+   */
+  update(deltaTime: number): void {
+    if (this.game.getState() !== GameState.PLAYING) return;
+
+    const piece = this.game.getCurrentPiece();
+    if (!piece) return;
+
+    if (piece !== this.piece) {
+      this.releaseSoftDrop();
+      this.plan = this.planPlacement();
+      this.piece = piece;
+      this.expected = this.getPieceState();
+    }
+
+    const delay = this.options.inputDelay ?? BOT_INPUT_DELAY;
+    this.timer = Math.min(this.timer + deltaTime, Math.max(delay, deltaTime));
+
+    while (this.plan.length > 0 && this.timer >= delay) {
+      if (this.softDropping) {
+        // Hold soft drop until the piece has landed
+        const current = this.game.getCurrentPiece()!;
+        if (this.game.getGhostPosition()!.y !== current.position.y) break;
+        this.releaseSoftDrop();
+        this.expected = this.getPieceState();
+      }
+
+      // The plan was made from where the piece stood; gravity may have moved it since
+      // A hold needs no route, and the piece it brings out starts at the spawn
+      if (this.plan[0] !== InputAction.HOLD && !this.isPieceAsExpected()) {
+        this.plan = this.replan();
+      }
+
+      const action = this.plan.shift()!;
+      this.game.handleInput(action, true);
+      if (action === InputAction.SOFT_DROP) {
+        this.softDropping = true;
+      } else {
+        this.game.handleInput(action, false);
+      }
+      this.timer -= delay;
+
+      // Hard drop ends the piece; a hold swaps it for the one the rest of the plan is for
+      this.piece = action === InputAction.HARD_DROP ? null : this.game.getCurrentPiece();
+      this.expected = this.getPieceState();
+      if (action === InputAction.HARD_DROP || this.game.getState() !== GameState.PLAYING) break;
+    }
+  }
+
+  /**
+   * Work out the inputs for the current piece
+   */
+  private planPlacement(): InputAction[] {
+    const depth = this.options.depth ?? BOT_DEPTH;
+    // One extra piece, since holding into an empty slot uses the first preview piece up
+    const decision = findBestPlacement(
+      this.game.getBoard(),
+      this.game.getCurrentPiece()!.type,
+      this.game.getHoldPiece(),
+      this.game.getNextPieces(depth + 1),
+      { canHold: this.game.isHoldAvailable(), depth, weights: this.options.weights }
+    );
+    this.target = decision?.placement ?? null;
+    if (!decision) return [InputAction.HARD_DROP];
+
+    return decision.hold ? [InputAction.HOLD, ...decision.placement.inputs] : decision.placement.inputs;
+  }
+
+  /**
+   * Find a new way from where the piece is now to the planned target, or pick a new target
+   */
+  private replan(): InputAction[] {
+    const board = this.game.getBoard();
+    const piece = this.game.getCurrentPiece()!;
+    const start = this.getPieceState()!;
+    const target = this.target;
+    if (target && target.type === piece.type) {
+      const targetCells = getCellsKey(board, target.type, target.position, target.rotation);
+      const route = findPlacements(board, piece.type, start).find(placement =>
+        placement.tSpin === target.tSpin &&
+        getCellsKey(board, placement.type, placement.position, placement.rotation) === targetCells
+      );
+      if (route) return route.inputs;
+    }
+
+    const depth = this.options.depth ?? BOT_DEPTH;
+    const decision = findBestPlacement(board, piece.type, null, this.game.getNextPieces(depth), {
+      canHold: false,
+      depth,
+      weights: this.options.weights,
+      start,
+    });
+    this.target = decision?.placement ?? null;
+    return decision ? decision.placement.inputs : [InputAction.HARD_DROP];
+  }
+
+  private getPieceState(): SearchStart | null {
+    const piece = this.game.getCurrentPiece();
+    return piece ? { position: { ...piece.position }, rotation: piece.rotation } : null;
+  }
+
+  private isPieceAsExpected(): boolean {
+    const piece = this.game.getCurrentPiece();
+    return !piece || !this.expected || (
+      piece.position.x === this.expected.position.x &&
+      piece.position.y === this.expected.position.y &&
+      piece.rotation === this.expected.rotation
+    );
+  }
+
+  private releaseSoftDrop(): void {
+    if (!this.softDropping) return;
+    this.softDropping = false;
+    this.game.handleInput(InputAction.SOFT_DROP, false);
+  }
+}
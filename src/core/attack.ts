@@ -0,0 +1,66 @@
+import { TSpinType } from '@/types/tetris';
+
+/**
+ * Garbage lines sent for each kind of clear
+ * Arrays are indexed by lines cleared; combo bonuses by combo count (1 = first clear)
+ */
+export interface AttackTable {
+  clears: number[];
+  tSpins: number[];
+  tSpinMinis: number[];
+  /** Extra lines for a back-to-back Tetris or T-Spin */
+  backToBack: number;
+  /** Bonus by combo count; counts past the end use the last entry */
+  combo: number[];
+  /** Lines for a perfect clear, on top of the clear itself */
+  perfectClear: number;
+}
+
+/**
+ * Guideline attack table
+ */
+export const GUIDELINE_ATTACK_TABLE: AttackTable = {
+  clears: [0, 0, 1, 2, 4],
+  tSpins: [0, 2, 4, 6],
+  tSpinMinis: [0, 0, 1],
+  backToBack: 1,
+  combo: [0, 0, 1, 1, 1, 2, 2, 3, 3, 4, 4, 4, 5],
+  perfectClear: 10,
+};
+
+/**
+ * A line clear as seen by the attack table
+ */
+export interface ClearInfo {
+  lines: number;
+  tSpin: TSpinType;
+  backToBack: boolean;
+  combo: number;
+  perfectClear: boolean;
+}
+
+/**
+ * Count the garbage lines a clear sends
+ */
+export function calculateAttack(table: AttackTable, clear: ClearInfo): number {
+  if (clear.lines === 0) return 0;
+
+  const base = {
+    [TSpinType.NONE]: table.clears,
+    [TSpinType.MINI]: table.tSpinMinis,
+    [TSpinType.FULL]: table.tSpins,
+  }[clear.tSpin];
+  let lines = base[Math.min(clear.lines, base.length - 1)];
+
+  if (clear.backToBack) {
+    lines += table.backToBack;
+  }
+  if (clear.combo > 0 && table.combo.length > 0) {
+    lines += table.combo[Math.min(clear.combo, table.combo.length) - 1];
+  }
+  if (clear.perfectClear) {
+    lines += table.perfectClear;
+  }
+
+  return lines;
+}
@@ -1,48 +1,17 @@
 import { TetrominoType } from '@/types/tetris';
+import { QueuedRandomizer, PIECE_ORDER } from './randomizer';
 
 /**
- * 7-Bag Random Generator
- * Ensures all 7 pieces appear exactly once per bag before reshuffling
+ * Bag Random Generator
+ * Ensures every piece appears `copies` times per bag before reshuffling
+ * (1 copy is the guideline 7-bag, 2 copies a 14-bag)
  */
-export class BagRandomizer {
-  private currentBag: TetrominoType[] = [];
-  private nextBag: TetrominoType[] = [];
-  private seed: number;
+export class BagRandomizer extends QueuedRandomizer {
+  private copies: number;
 
-  constructor(seed?: number) {
-    this.seed = seed ?? Date.now();
-    this.fillBag(this.currentBag);
-    this.fillBag(this.nextBag);
-  }
-
-  /**
-   * Get the next piece from the bag
-   */
-  next(): TetrominoType {
-    if (this.currentBag.length === 0) {
-      this.currentBag = this.nextBag;
-      this.nextBag = [];
-      this.fillBag(this.nextBag);
-    }
-
-    return this.currentBag.shift()!;
-  }
-
-  /**
-   * Preview upcoming pieces without removing them
-   * @param count Number of pieces to preview
-   */
-  preview(count: number): TetrominoType[] {
-    const allPieces = [...this.currentBag, ...this.nextBag];
-    
-    // If we need more pieces than available, generate more bags
-    while (allPieces.length < count) {
-      const tempBag: TetrominoType[] = [];
-      this.fillBag(tempBag);
-      allPieces.push(...tempBag);
-    }
-
-    return allPieces.slice(0, count);
+  constructor(seed?: number, copies = 1) {
+    super(seed);
+    this.copies = copies;
   }
 
   /**
@@ -53,44 +22,20 @@ export class BagRandomizer {
   }
 
   /**
-   * Fill a bag with all 7 tetromino types and shuffle
+   * Create a full bag and shuffle it
    */
-  private fillBag(bag: TetrominoType[]): void {
-    // Add all 7 pieces
-    bag.push(
-      TetrominoType.I,
-      TetrominoType.O,
-      TetrominoType.T,
-      TetrominoType.S,
-      TetrominoType.Z,
-      TetrominoType.J,
-      TetrominoType.L
-    );
+  protected generate(): TetrominoType[] {
+    const bag: TetrominoType[] = [];
+    for (let i = 0; i < this.copies; i++) {
+      bag.push(...PIECE_ORDER);
+    }
 
     // Fisher-Yates shuffle
     for (let i = bag.length - 1; i > 0; i--) {
-      const j = Math.floor(this.random() * (i + 1));
+      const j = this.rng.nextInt(i + 1);
       [bag[i], bag[j]] = [bag[j], bag[i]];
     }
-  }
-
-  /**
-   * Simple pseudorandom number generator
-   * Using Linear Congruential Generator for reproducibility
-   */
-  private random(): number {
-    this.seed = (this.seed * 1664525 + 1013904223) % 2147483648;
-    return this.seed / 2147483648;
-  }
 
-  /**
-   * Reset the randomizer with a new seed
-   */
-  reset(seed?: number): void {
-    this.seed = seed ?? Date.now();
-    this.currentBag = [];
-    this.nextBag = [];
-    this.fillBag(this.currentBag);
-    this.fillBag(this.nextBag);
+    return bag;
   }
-}
\ No newline at end of file
+}
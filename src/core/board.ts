@@ -1,26 +1,33 @@
 import { 
   TetrominoType, 
+  Cell,
   Position, 
+  RotationSystemType,
   BOARD_WIDTH, 
-  TOTAL_HEIGHT 
+  TOTAL_HEIGHT,
+  HIDDEN_ROWS,
+  GARBAGE
 } from '@/types/tetris';
-import { PieceData } from './piece';
+import { RotationSystem, getRotationSystem } from './rotation';
 
 /**
  * Game board management
  * Handles collision detection, line clearing, and board state
  */
 export class Board {
-  private grid: (TetrominoType | null)[][];
+  private grid: Cell[][];
+  private rotationSystem: RotationSystem;
+  private overflowed = false; // Blocks were lost above the top of the grid
 
-  constructor() {
+  constructor(rotationSystem: RotationSystem = getRotationSystem(RotationSystemType.SRS)) {
+    this.rotationSystem = rotationSystem;
     this.grid = this.createEmptyGrid();
   }
 
   /**
    * Create an empty grid
    */
-  private createEmptyGrid(): (TetrominoType | null)[][] {
+  private createEmptyGrid(): Cell[][] {
     return Array(TOTAL_HEIGHT)
       .fill(null)
       .map(() => Array(BOARD_WIDTH).fill(null));
@@ -29,10 +36,35 @@ export class Board {
   /**
    * Get the current grid state
    */
-  getGrid(): (TetrominoType | null)[][] {
+  getGrid(): Cell[][] {
     return this.grid;
   }
 
+  /**
+   * Copy the board, e.g. to try out placements without touching the game
+   */
+  clone(): Board {
+    const copy = new Board(this.rotationSystem);
+    copy.grid = this.grid.map(row => [...row]);
+    copy.overflowed = this.overflowed;
+    return copy;
+  }
+
+  /**
+   * Replace the contents with a saved grid
+   */
+  setGrid(grid: Cell[][]): void {
+    this.grid = grid.map(row => [...row]);
+    this.overflowed = false;
+  }
+
+  /**
+   * Get the rotation system that defines piece shapes
+   */
+  getRotationSystem(): RotationSystem {
+    return this.rotationSystem;
+  }
+
   /**
    * Check if a piece can be placed at the given position
    */
@@ -41,7 +73,7 @@ export class Board {
     position: Position,
     rotation: number
   ): boolean {
-    const shape = PieceData.getShape(type, rotation);
+    const shape = this.rotationSystem.getShape(type, rotation);
 
     for (let row = 0; row < shape.length; row++) {
       for (let col = 0; col < shape[row].length; col++) {
@@ -78,7 +110,7 @@ export class Board {
     position: Position,
     rotation: number
   ): void {
-    const shape = PieceData.getShape(type, rotation);
+    const shape = this.rotationSystem.getShape(type, rotation);
 
     for (let row = 0; row < shape.length; row++) {
       for (let col = 0; col < shape[row].length; col++) {
@@ -89,6 +121,8 @@ export class Board {
 
         if (boardY >= 0 && boardY < TOTAL_HEIGHT && boardX >= 0 && boardX < BOARD_WIDTH) {
           this.grid[boardY][boardX] = type;
+        } else if (boardY < 0) {
+          this.overflowed = true;
         }
       }
     }
@@ -104,7 +138,6 @@ export class Board {
     let row = TOTAL_HEIGHT - 1;
     while (row >= 0) {
       if (this.isLineFull(row)) {
-        console.log(`Clearing line ${row}:`, this.grid[row]);
         clearedLines.push(row);
         // Remove the line immediately and add empty line at top
         this.grid.splice(row, 1);
@@ -116,11 +149,36 @@ export class Board {
       }
     }
 
-    if (clearedLines.length > 0) {
-      console.log(`Total cleared lines: ${clearedLines.length}`);
+    return clearedLines.reverse(); // Return in top-to-bottom order
+  }
+
+  /**
+   * Push garbage rows in from the bottom, lifting the stack by one row each
+   * Blocks lifted past the top of the grid top the board out
+   * @param holes Empty column of each row, in the order the rows are pushed
+   */
+  insertGarbage(holes: number[]): void {
+    for (const hole of holes) {
+      const removed = this.grid.shift()!;
+      if (removed.some(cell => cell !== null)) {
+        this.overflowed = true;
+      }
+      this.grid.push(Array.from({ length: BOARD_WIDTH }, (_, x) => (x === hole ? null : GARBAGE)));
     }
+  }
 
-    return clearedLines.reverse(); // Return in top-to-bottom order
+  /**
+   * Count the rows that still hold garbage
+   */
+  countGarbageRows(): number {
+    return this.grid.filter(row => row.includes(GARBAGE)).length;
+  }
+
+  /**
+   * Check if the board is completely empty (a perfect clear)
+   */
+  isEmpty(): boolean {
+    return this.grid.every(row => row.every(cell => cell === null));
   }
 
   /**
@@ -137,22 +195,41 @@ export class Board {
       return false;
     }
     
-    // Check that every cell contains a valid tetromino type (not null or undefined)
+    // Check that every cell contains garbage or a valid tetromino type (not null or undefined)
     return this.grid[row].every(cell => 
       cell !== null && 
       cell !== undefined && 
-      Object.values(TetrominoType).includes(cell as TetrominoType)
+      (cell === GARBAGE || Object.values(TetrominoType).includes(cell as TetrominoType))
     );
   }
 
   /**
-   * Check if the game is over (pieces can't spawn)
-   * This should only be called after trying to place a piece
+   * Check if blocks have been pushed out through the top of the board (top-out)
+   * Spawn and lock checks are made by the game, which knows the active piece
    */
   isGameOver(): boolean {
-    // Game over is determined by spawn position validity, not board state
-    // This method is kept for compatibility but should be used carefully
-    return false;
+    return this.overflowed;
+  }
+
+  /**
+   * Check if a piece at the given position lies entirely above the visible field
+   */
+  isAboveVisibleField(
+    type: TetrominoType,
+    position: Position,
+    rotation: number
+  ): boolean {
+    const shape = this.rotationSystem.getShape(type, rotation);
+
+    for (let row = 0; row < shape.length; row++) {
+      for (let col = 0; col < shape[row].length; col++) {
+        if (shape[row][col] !== 0 && position.y + row >= HIDDEN_ROWS) {
+          return false;
+        }
+      }
+    }
+
+    return true;
   }
 
   /**
@@ -178,6 +255,7 @@ export class Board {
    */
   reset(): void {
     this.grid = this.createEmptyGrid();
+    this.overflowed = false;
   }
 
   /**
@@ -187,6 +265,10 @@ export class Board {
     height: number;
     holes: number;
     bumpiness: number;
+    /** Total depth of columns lower than both neighbours (walls count as high) */
+    wells: number;
+    /** T-Spin Double slots: an overhung T-shaped gap that a T can spin into */
+    tSlots: number;
   } {
     const columnHeights = Array(BOARD_WIDTH).fill(0);
     let holes = 0;
@@ -213,10 +295,39 @@ export class Board {
       bumpiness += Math.abs(columnHeights[i] - columnHeights[i + 1]);
     }
 
+    let wells = 0;
+    for (let col = 0; col < BOARD_WIDTH; col++) {
+      const left = col > 0 ? columnHeights[col - 1] : TOTAL_HEIGHT;
+      const right = col < BOARD_WIDTH - 1 ? columnHeights[col + 1] : TOTAL_HEIGHT;
+      wells += Math.max(0, Math.min(left, right) - columnHeights[col]);
+    }
+
     return {
       height: Math.max(...columnHeights),
       holes,
       bumpiness,
+      wells,
+      tSlots: this.countTSlots(),
     };
   }
+
+  /**
+   * Count T-Spin Double slots: three open cells over a single-cell notch,
+   * closed off below and roofed on one side
+   */
+  private countTSlots(): number {
+    const filled = (x: number, y: number) =>
+      x < 0 || x >= BOARD_WIDTH || y >= TOTAL_HEIGHT || (y >= 0 && this.grid[y][x] !== null);
+
+    let slots = 0;
+    for (let y = 1; y < TOTAL_HEIGHT - 1; y++) {
+      for (let x = 1; x < BOARD_WIDTH - 1; x++) {
+        const open = !filled(x - 1, y) && !filled(x, y) && !filled(x + 1, y) && !filled(x, y + 1);
+        const notch = filled(x - 1, y + 1) && filled(x + 1, y + 1) && filled(x, y + 2);
+        const roof = filled(x - 1, y - 1) !== filled(x + 1, y - 1) && !filled(x, y - 1);
+        if (open && notch && roof) slots++;
+      }
+    }
+    return slots;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { TetrominoType, RotationState, Position } from '@/types/tetris';
+import { Board } from './board';
+import { PieceData } from './piece';
+import { RotationSystem } from './rotation';
+
+/**
+ * One key press in a finesse sequence; held moves auto-shift all the way to the wall
+ */
+export interface FinesseInput {
+  action: 'MOVE_LEFT' | 'MOVE_RIGHT' | 'ROTATE_CW' | 'ROTATE_CCW';
+  hold?: boolean;
+}
+
+interface FinesseState {
+  position: Position;
+  rotation: RotationState;
+  inputs: FinesseInput[];
+}
+
+const FINESSE_INPUTS: FinesseInput[] = [
+  { action: 'MOVE_LEFT' },
+  { action: 'MOVE_RIGHT' },
+  { action: 'MOVE_LEFT', hold: true },
+  { action: 'MOVE_RIGHT', hold: true },
+  { action: 'ROTATE_CW' },
+  { action: 'ROTATE_CCW' },
+];
+
+/**
+ * Get the columns and relative rows a piece covers, ignoring its height on the board
+ * Equivalent orientations of symmetric pieces (O, I, S, Z) share a footprint
+ */
+function getFootprint(rotationSystem: RotationSystem, type: TetrominoType, x: number, rotation: RotationState): string {
+  const shape = rotationSystem.getShape(type, rotation);
+  const cells: [number, number][] = [];
+  for (let row = 0; row < shape.length; row++) {
+    for (let col = 0; col < shape[row].length; col++) {
+      if (shape[row][col] === 1) cells.push([x + col, row]);
+    }
+  }
+
+  const top = Math.min(...cells.map(([, row]) => row));
+  return cells.map(([col, row]) => `${col},${row - top}`).sort().join(' ');
+}
+
+/**
+ * Apply one finesse input on an empty board, or return null if it does nothing
+ */
+function applyInput(board: Board, type: TetrominoType, state: FinesseState, input: FinesseInput): FinesseState | null {
+  const rotationSystem = board.getRotationSystem();
+  let { position, rotation } = state;
+
+  if (input.action === 'MOVE_LEFT' || input.action === 'MOVE_RIGHT') {
+    const dx = input.action === 'MOVE_LEFT' ? -1 : 1;
+    let moved = false;
+    do {
+      const next = { x: position.x + dx, y: position.y };
+      if (!board.isValidPosition(type, next, rotation)) break;
+      position = next;
+      moved = true;
+    } while (input.hold);
+    if (!moved) return null;
+  } else {
+    const to = input.action === 'ROTATE_CW'
+      ? PieceData.getNextRotationCW(rotation)
+      : PieceData.getNextRotationCCW(rotation);
+    const offsets = [{ x: 0, y: 0 }, ...rotationSystem.getKicks(type, rotation, to)];
+    const kick = offsets.find(offset =>
+      board.isValidPosition(type, { x: position.x + offset.x, y: position.y + offset.y }, to)
+    );
+    if (!kick) return null;
+    position = { x: position.x + kick.x, y: position.y + kick.y };
+    rotation = to;
+  }
+
+  return { position, rotation, inputs: [...state.inputs, input] };
+}
+
+/**
+ * Find the shortest key sequence that brings a freshly spawned piece over its final placement
+ * Searched on an empty board from the spawn height; 180 rotations are not assumed
+ * @returns The optimal inputs, or null when the placement cannot be reached by a plain drop
+ */
+export function findFinesseSequence(
+  rotationSystem: RotationSystem,
+  type: TetrominoType,
+  x: number,
+  rotation: RotationState
+): FinesseInput[] | null {
+  const board = new Board(rotationSystem);
+  const target = getFootprint(rotationSystem, type, x, rotation);
+  const start: FinesseState = {
+    position: rotationSystem.getSpawnPosition(type),
+    rotation: RotationState.SPAWN,
+    inputs: [],
+  };
+
+  const seen = new Set<string>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const state = queue.shift()!;
+    const key = `${state.position.x},${state.position.y},${state.rotation}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    if (getFootprint(rotationSystem, type, state.position.x, state.rotation) === target) {
+      return state.inputs;
+    }
+
+    for (const input of FINESSE_INPUTS) {
+      const next = applyInput(board, type, state, input);
+      if (next) queue.push(next);
+    }
+  }
+
+  return null;
+}
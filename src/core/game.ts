@@ -4,20 +4,55 @@ import {
   Piece,
   TetrominoType,
   RotationState,
+  TSpinType,
+  RandomizerType,
+  RotationSystemType,
+  LockResetMode,
+  GameOverReason,
+  GameModeType,
+  HandlingSettings,
   Position,
   LOCK_DELAY,
-  DAS_DELAY,
-  DAS_PERIOD,
+  MAX_LOCK_RESETS,
+  MAX_UNDO_STEPS,
+  SDF_INSTANT,
+  SIMULATION_FPS,
+  DEFAULT_GARBAGE_MESSINESS,
+  GARBAGE_DELAY,
   SCORE_SINGLE,
   SCORE_DOUBLE,
   SCORE_TRIPLE,
   SCORE_TETRIS,
+  SCORE_TSPIN_MINI,
+  SCORE_TSPIN_MINI_SINGLE,
+  SCORE_TSPIN_MINI_DOUBLE,
+  SCORE_TSPIN,
+  SCORE_TSPIN_SINGLE,
+  SCORE_TSPIN_DOUBLE,
+  SCORE_TSPIN_TRIPLE,
+  BACK_TO_BACK_MULTIPLIER,
+  SCORE_PERFECT_CLEAR_SINGLE,
+  SCORE_PERFECT_CLEAR_DOUBLE,
+  SCORE_PERFECT_CLEAR_TRIPLE,
+  SCORE_PERFECT_CLEAR_TETRIS,
+  SCORE_PERFECT_CLEAR_B2B_TETRIS,
   SCORE_SOFT_DROP,
   SCORE_HARD_DROP,
 } from '@/types/tetris';
 import { Board } from './board';
-import { BagRandomizer } from './bag';
+import { Randomizer, SeededRandom } from './randomizer';
+import { createRandomizer } from './randomizer-impls';
 import { PieceData } from './piece';
+import { RotationSystem, getRotationSystem } from './rotation';
+import { FixedTimestep, msToFrames } from './timing';
+import { normalizeHandling } from './handling';
+import { GameMode, RisingGarbage, getGameMode } from './modes';
+import { findFinesseSequence } from './finesse';
+import { MasterProgression, getMasterDelays, getMasterGravity, GRAVITY_UNIT } from './master';
+import { createGarbageRandom, generateGarbageHoles } from './garbage';
+import { AttackTable, GUIDELINE_ATTACK_TABLE, calculateAttack } from './attack';
+import { PerformanceStats, getPerformanceStats } from './stats';
+import { GameSnapshot, SNAPSHOT_VERSION } from './snapshot';
 import { SoundManager } from '@/utils/sound-manager';
 
 /**
@@ -30,61 +65,247 @@ export enum InputAction {
   HARD_DROP = 'HARD_DROP',
   ROTATE_CW = 'ROTATE_CW',
   ROTATE_CCW = 'ROTATE_CCW',
+  ROTATE_180 = 'ROTATE_180',
   HOLD = 'HOLD',
   PAUSE = 'PAUSE',
+  /** Take back the last placement (practice play only) */
+  UNDO = 'UNDO',
 }
 
 /**
  * Game events
  */
 export interface GameEvent {
-  type: 'line_clear' | 'piece_lock' | 'piece_landing' | 'game_over' | 'level_up' | 'tspin' | 'combo';
+  type:
+    | 'game_start'
+    | 'game_restore'
+    | 'undo'
+    | 'input'
+    | 'line_clear'
+    | 'piece_lock'
+    | 'piece_landing'
+    | 'game_over'
+    | 'level_up'
+    | 'tspin'
+    | 'combo'
+    | 'perfect_clear'
+    | 'countdown'
+    | 'split'
+    | 'game_complete'
+    | 'time_up'
+    | 'section'
+    | 'garbage'
+    | 'attack'
+    | 'garbage_incoming'
+    | 'garbage_cancel'
+    | 'finesse_fault';
   data?: any;
 }
 
 /**
- * Main game logic controller
+ * Game configuration
  */
-export class Game {
-  private board: Board;
-  private bag: BagRandomizer;
-  private soundManager: SoundManager;
-  private state: GameState = GameState.IDLE;
-  private stats: GameStats = {
+export interface GameOptions {
+  /** Randomizer seed; a fresh seed is drawn from the clock on every start when omitted */
+  seed?: number;
+  /** Piece generator strategy (defaults to the guideline 7-bag) */
+  randomizer?: RandomizerType;
+  /** Pieces dealt by RandomizerType.FIXED */
+  pieceSequence?: TetrominoType[];
+  /** Rotation system (defaults to guideline SRS) */
+  rotationSystem?: RotationSystemType;
+  /** Lock delay reset rule (defaults to guideline extended placement) */
+  lockReset?: LockResetMode;
+  /** Player handling; missing values use DEFAULT_HANDLING */
+  handling?: Partial<HandlingSettings>;
+  /** Game mode (defaults to Marathon) */
+  mode?: GameModeType;
+  /** Starting garbage rows, overriding the mode's count */
+  garbageRows?: number;
+  /** Chance (0-1) that a garbage hole moves from the row below; defaults to DEFAULT_GARBAGE_MESSINESS */
+  garbageMessiness?: number;
+  /** Lines sent per clear; defaults to the guideline table */
+  attackTable?: AttackTable;
+  /** Time in ms before received garbage can rise; defaults to GARBAGE_DELAY */
+  garbageDelay?: number;
+  /** Play sound effects (defaults to true); off for headless runs, which have no audio */
+  sound?: boolean;
+  /** Practice play: placements can be undone, and runs are ranked apart from normal play */
+  practice?: boolean;
+  /** Count key presses and finesse faults (defaults to true); off where held keys arrive as repeated presses */
+  inputStats?: boolean;
+}
+
+/**
+ * Base score by lines cleared (index) for each kind of clear
+ */
+const CLEAR_SCORES: Record<TSpinType, number[]> = {
+  [TSpinType.NONE]: [0, SCORE_SINGLE, SCORE_DOUBLE, SCORE_TRIPLE, SCORE_TETRIS],
+  [TSpinType.MINI]: [SCORE_TSPIN_MINI, SCORE_TSPIN_MINI_SINGLE, SCORE_TSPIN_MINI_DOUBLE],
+  [TSpinType.FULL]: [SCORE_TSPIN, SCORE_TSPIN_SINGLE, SCORE_TSPIN_DOUBLE, SCORE_TSPIN_TRIPLE],
+};
+
+/**
+ * Perfect clear bonus by lines cleared (index)
+ */
+const PERFECT_CLEAR_SCORES = [
+  0,
+  SCORE_PERFECT_CLEAR_SINGLE,
+  SCORE_PERFECT_CLEAR_DOUBLE,
+  SCORE_PERFECT_CLEAR_TRIPLE,
+  SCORE_PERFECT_CLEAR_TETRIS,
+];
+
+/**
+ * Received garbage waiting to rise
+ */
+export interface IncomingGarbage {
+  lines: number;
+  /** Frame from which the lines may be inserted */
+  readyFrame: number;
+}
+
+/**
+ * Inputs that count as key presses for finesse
+ */
+const FINESSE_ACTIONS: InputAction[] = [
+  InputAction.MOVE_LEFT,
+  InputAction.MOVE_RIGHT,
+  InputAction.ROTATE_CW,
+  InputAction.ROTATE_CCW,
+  InputAction.ROTATE_180,
+];
+
+/**
+ * Create zeroed game statistics
+ */
+function createStats(): GameStats {
+  return {
     score: 0,
     level: 0,
     lines: 0,
     combo: 0,
     backToBack: false,
+    tSpins: 0,
+    tSpinMinis: 0,
+    perfectClears: 0,
+    pieces: 0,
+    finesseFaults: 0,
+    attack: 0,
+    keys: 0,
+    maxCombo: 0,
+    tetrises: 0,
+    pieceCounts: Object.fromEntries(
+      Object.values(TetrominoType).map(type => [type, 0])
+    ) as Record<TetrominoType, number>,
+    undos: 0,
   };
+}
+
+/**
+ * Main game logic controller
+ */
+export class Game {
+  private options: GameOptions;
+  private seed: number;
+  private board: Board;
+  private rotationSystem: RotationSystem;
+  private randomizer: Randomizer;
+  private garbageRandom: SeededRandom;
+  private soundManager: SoundManager | null;
+  private handling: HandlingSettings;
+  private mode: GameMode;
+  private state: GameState = GameState.IDLE;
+  private gameOverReason: GameOverReason | null = null;
+  private stats: GameStats = createStats();
 
   private currentPiece: Piece | null = null;
   private holdPiece: TetrominoType | null = null;
   private canHold = true;
 
+  // Simulation clock; all timers below count simulation frames
+  private clock = new FixedTimestep();
+  private frame = 0;
+  private previousPosition: Position | null = null;
+  private countdownFrames = 0;
+  private startFrame = 0; // Frame the clock started on, after any countdown
+  private splits: number[] = [];
+  private master: MasterProgression | null = null;
+  private areTimer = 0; // Frames until the next piece enters
+  private garbageTimer = 0; // Frames since the last rising garbage row
+  private garbageInterval = 0; // Current rising garbage interval in ms
+  private lastGarbageHole: number | undefined = undefined;
+  private garbageReceived = 0;
+  private incomingGarbage: IncomingGarbage[] = [];
+
   private dropTimer = 0;
   private lockTimer = 0;
+  private lockResets = 0;
+  private lowestRow = 0;
   private dasTimer = 0;
   private dasDirection: 'left' | 'right' | null = null;
+  private dasCutTimer = 0;
   private softDropTimer = 0;
   private isSoftDropping = false;
 
   private lastWasRotation = false;
+  private lastRotationWas180 = false;
+  private lastKick: Position | null = null;
+  private pieceInputs = 0;
+  private pieceSoftDropped = false;
+  private pieceDropRows = 0;
+  // Practice undo: the state each placement started from, newest last
+  private undoHistory: GameSnapshot[] = [];
+  private placementStart: GameSnapshot | null = null;
   private eventHandlers: Map<string, ((event: GameEvent) => void)[]> = new Map();
 
-  constructor() {
-    this.board = new Board();
-    this.bag = new BagRandomizer();
-    this.soundManager = new SoundManager();
+  constructor(options: GameOptions = {}) {
+    this.options = options;
+    this.seed = options.seed ?? Date.now();
+    this.handling = normalizeHandling(options.handling);
+    this.mode = getGameMode(options.mode ?? GameModeType.MARATHON);
+    this.rotationSystem = getRotationSystem(options.rotationSystem ?? RotationSystemType.SRS);
+    this.board = new Board(this.rotationSystem);
+    this.randomizer = createRandomizer(
+      options.randomizer ?? RandomizerType.BAG_7,
+      this.seed,
+      options.pieceSequence
+    );
+    this.garbageRandom = createGarbageRandom(this.seed);
+    this.soundManager = options.sound === false ? null : new SoundManager();
   }
 
   /**
    * Start a new game
    */
   start(): void {
+    this.seed = this.options.seed ?? Date.now();
+    this.handling = normalizeHandling(this.options.handling);
+    this.mode = getGameMode(this.options.mode ?? GameModeType.MARATHON);
     this.reset();
     this.state = GameState.PLAYING;
-    this.spawnNextPiece();
+    this.emit({ type: 'game_start', data: { seed: this.seed, mode: this.mode.type } });
+
+    const garbageRows = this.getGarbageRows();
+    if (garbageRows > 0) {
+      const messiness = this.options.garbageMessiness ?? DEFAULT_GARBAGE_MESSINESS;
+      this.board.insertGarbage(generateGarbageHoles(this.garbageRandom, garbageRows, messiness));
+    }
+
+    if (this.mode.countdown > 0) {
+      this.countdownFrames = Math.round(msToFrames(this.mode.countdown));
+      this.emit({ type: 'countdown', data: { phase: 'ready' } });
+    } else {
+      this.beginPlay();
+    }
+  }
+
+  /**
+   * Start the clock and deal the first piece
+   */
+  private beginPlay(): void {
+    this.startFrame = this.frame;
+    this.dealNextPiece();
   }
 
   /**
@@ -92,88 +313,185 @@ export class Game {
    */
   reset(): void {
     this.board.reset();
-    this.bag.reset();
+    this.randomizer.reset(this.seed);
+    this.garbageRandom = createGarbageRandom(this.seed);
     this.state = GameState.IDLE;
-    this.stats = {
-      score: 0,
-      level: 0,
-      lines: 0,
-      combo: 0,
-      backToBack: false,
-    };
+    this.gameOverReason = null;
+    this.stats = createStats();
     this.currentPiece = null;
     this.holdPiece = null;
     this.canHold = true;
+    this.clock.reset();
+    this.frame = 0;
+    this.previousPosition = null;
+    this.countdownFrames = 0;
+    this.startFrame = 0;
+    this.splits = [];
+    this.master = this.mode.master ? new MasterProgression() : null;
+    this.areTimer = 0;
+    this.garbageTimer = 0;
+    this.garbageInterval = this.mode.risingGarbage?.initialInterval ?? 0;
+    this.lastGarbageHole = undefined;
+    this.garbageReceived = 0;
+    this.incomingGarbage = [];
     this.dropTimer = 0;
     this.lockTimer = 0;
+    this.lockResets = 0;
+    this.lowestRow = 0;
     this.dasTimer = 0;
     this.dasDirection = null;
+    this.dasCutTimer = 0;
     this.softDropTimer = 0;
     this.isSoftDropping = false;
+    this.pieceInputs = 0;
+    this.pieceSoftDropped = false;
+    this.pieceDropRows = 0;
+    this.undoHistory = [];
+    this.placementStart = null;
   }
 
   /**
    * Update game logic
+   * Accumulates real time and advances the simulation in fixed frames
    * @param deltaTime Time since last update in milliseconds
    */
   update(deltaTime: number): void {
-    if (this.state !== GameState.PLAYING || !this.currentPiece) {
+    if (this.state !== GameState.PLAYING) {
+      this.clock.reset();
       return;
     }
 
+    this.clock.advance(deltaTime, () => this.step());
+  }
+
+  /**
+   * Advance the simulation by exactly one frame
+   */
+  step(): void {
+    if (this.state !== GameState.PLAYING) {
+      return;
+    }
+
+    if (this.countdownFrames > 0) {
+      this.frame++;
+      this.countdownFrames--;
+      if (this.countdownFrames === 0) {
+        this.emit({ type: 'countdown', data: { phase: 'go' } });
+        this.beginPlay();
+      }
+      return;
+    }
+
+    if (this.areTimer > 0) {
+      this.frame++;
+      this.areTimer--;
+      // DAS keeps charging between pieces
+      if (this.dasDirection) {
+        this.dasTimer = Math.min(this.dasTimer + 1, this.getDasFrames());
+      }
+      if (this.areTimer === 0) {
+        this.dealNextPiece();
+      }
+      return;
+    }
+
+    if (!this.currentPiece) {
+      return;
+    }
+
+    this.frame++;
+    if (this.mode.timeLimit !== null && this.getElapsedTime() >= this.mode.timeLimit) {
+      this.endTimeUp();
+      return;
+    }
+    this.previousPosition = { ...this.currentPiece.position };
+
+    if (this.mode.risingGarbage) {
+      this.updateRisingGarbage(this.mode.risingGarbage);
+      if (this.state !== GameState.PLAYING || !this.currentPiece) {
+        return;
+      }
+    }
+
     // Handle DAS (Delayed Auto Shift)
+    if (this.dasCutTimer > 0) {
+      this.dasCutTimer--;
+    }
     if (this.dasDirection) {
-      this.dasTimer += deltaTime;
-      if (this.dasTimer >= DAS_DELAY) {
-        const dasSteps = Math.floor((this.dasTimer - DAS_DELAY) / DAS_PERIOD);
-        for (let i = 0; i < dasSteps; i++) {
-          if (this.dasDirection === 'left') {
-            this.movePiece(-1, 0);
-          } else {
-            this.movePiece(1, 0);
+      this.dasTimer++;
+      const dasDelay = this.getDasFrames();
+      const autoRepeatRate = msToFrames(this.handling.arr);
+      const dx = this.dasDirection === 'left' ? -1 : 1;
+      if (this.dasCutTimer > 0) {
+        // DAS stays charged but does not shift the new piece yet
+        this.dasTimer = Math.min(this.dasTimer, dasDelay);
+      } else if (this.dasTimer >= dasDelay) {
+        if (autoRepeatRate === 0) {
+          // Instant ARR: slide all the way
+          while (this.movePiece(dx, 0)) {
+            // Keep sliding until blocked
           }
+        } else {
+          const dasSteps = Math.floor((this.dasTimer - dasDelay) / autoRepeatRate);
+          for (let i = 0; i < dasSteps; i++) {
+            this.movePiece(dx, 0);
+          }
+          this.dasTimer = dasDelay + ((this.dasTimer - dasDelay) % autoRepeatRate);
         }
-        this.dasTimer = DAS_DELAY + ((this.dasTimer - DAS_DELAY) % DAS_PERIOD);
       }
     }
 
     // Handle soft drop (down key held)
     if (this.isSoftDropping) {
-      this.softDropTimer += deltaTime;
-      const softDropInterval = 50; // 50ms per soft drop (20 times/second)
-      
-      while (this.softDropTimer >= softDropInterval) {
-        this.softDropTimer -= softDropInterval;
-        if (this.movePiece(0, 1)) {
-          this.stats.score += SCORE_SOFT_DROP;
+      if (this.handling.sdf >= SDF_INSTANT) {
+        // Instant soft drop: sink to the floor without locking
+        while (this.movePiece(0, 1)) {
+          this.awardDrop(SCORE_SOFT_DROP);
+        }
+      } else {
+        this.softDropTimer++;
+        const softDropInterval = this.getDropInterval() / this.handling.sdf;
+
+        while (this.softDropTimer >= softDropInterval) {
+          this.softDropTimer -= softDropInterval;
+          if (this.movePiece(0, 1)) {
+            this.awardDrop(SCORE_SOFT_DROP);
+          }
         }
       }
     }
 
     // Handle gravity
-    this.dropTimer += deltaTime;
+    this.dropTimer++;
     const dropInterval = this.getDropInterval();
     
     while (this.dropTimer >= dropInterval) {
       this.dropTimer -= dropInterval;
-      if (!this.movePiece(0, 1)) {
-        // Can't move down, start lock timer
-        if (!this.currentPiece.locked) {
-          this.currentPiece.locked = true;
-          // Emit piece landing event when it first touches the ground
-          this.emit({ type: 'piece_landing', data: { piece: this.currentPiece } });
-        }
+      this.movePiece(0, 1);
+    }
+
+    // A resting piece has landed; one moved or kicked off the stack is airborne again
+    const grounded = !this.canMoveDown();
+    if (grounded && !this.currentPiece.locked) {
+      this.currentPiece.locked = true;
+      // Emit piece landing event when it first touches the ground
+      this.emit({ type: 'piece_landing', data: { piece: this.currentPiece } });
+
+      // With the reset allowance spent, touching down again locks at once
+      if (this.lockResetsExhausted()) {
+        this.lockCurrentPiece();
+        return;
       }
+    } else if (!grounded && this.currentPiece.locked) {
+      this.currentPiece.locked = false;
     }
 
     // Handle lock delay
     if (this.currentPiece.locked) {
-      this.lockTimer += deltaTime;
-      if (this.lockTimer >= LOCK_DELAY) {
+      this.lockTimer++;
+      if (this.lockTimer >= this.getLockDelayFrames()) {
         this.lockCurrentPiece();
       }
-    } else {
-      this.lockTimer = 0;
     }
   }
 
@@ -181,6 +499,8 @@ export class Game {
    * Handle input
    */
   handleInput(action: InputAction, pressed: boolean): void {
+    this.emit({ type: 'input', data: { action, pressed } });
+
     if (this.state !== GameState.PLAYING) {
       if (action === InputAction.PAUSE && pressed && this.state === GameState.PAUSED) {
         this.state = GameState.PLAYING;
@@ -193,8 +513,80 @@ export class Game {
       return;
     }
 
-    if (!this.currentPiece) return;
+    if (action === InputAction.UNDO) {
+      if (pressed) this.undo();
+      return;
+    }
+
+    if (pressed && this.options.inputStats !== false) {
+      this.stats.keys++;
+    }
+
+    if (!this.currentPiece) {
+      // Between pieces held keys are still tracked, so DAS charges during the entry delay
+      this.handleHeldInput(action, pressed);
+      return;
+    }
+
+    // Count key presses toward finesse; auto-repeat is not a press
+    if (pressed) {
+      if (action === InputAction.SOFT_DROP) {
+        this.pieceSoftDropped = true;
+      } else if (FINESSE_ACTIONS.includes(action)) {
+        this.pieceInputs++;
+      }
+    }
+
+    switch (action) {
+      case InputAction.MOVE_LEFT:
+      case InputAction.MOVE_RIGHT:
+      case InputAction.SOFT_DROP:
+        this.handleHeldInput(action, pressed);
+        break;
+
+      case InputAction.HARD_DROP:
+        if (pressed) {
+          this.performHardDrop();
+        }
+        break;
+
+      case InputAction.ROTATE_CW:
+        if (pressed) {
+          if (this.rotatePiece(PieceData.getNextRotationCW(this.currentPiece.rotation))) {
+            this.soundManager?.playPieceRotate();
+          }
+        }
+        break;
+
+      case InputAction.ROTATE_CCW:
+        if (pressed) {
+          if (this.rotatePiece(PieceData.getNextRotationCCW(this.currentPiece.rotation))) {
+            this.soundManager?.playPieceRotate();
+          }
+        }
+        break;
 
+      case InputAction.ROTATE_180:
+        if (pressed) {
+          if (this.rotatePiece(PieceData.getRotation180(this.currentPiece.rotation))) {
+            this.soundManager?.playPieceRotate();
+          }
+        }
+        break;
+
+      case InputAction.HOLD:
+        if (pressed && this.canHold) {
+          this.performHold();
+          this.soundManager?.playHold();
+        }
+        break;
+    }
+  }
+
+  /**
+   * Handle the inputs that act while held: shifting and soft drop
+   */
+  private handleHeldInput(action: InputAction, pressed: boolean): void {
     switch (action) {
       case InputAction.MOVE_LEFT:
         if (pressed) {
@@ -224,42 +616,13 @@ export class Game {
           this.softDropTimer = 0;
           // Immediate soft drop on press
           if (this.movePiece(0, 1)) {
-            this.stats.score += SCORE_SOFT_DROP;
+            this.awardDrop(SCORE_SOFT_DROP);
           }
         } else {
           this.isSoftDropping = false;
           this.softDropTimer = 0;
         }
         break;
-
-      case InputAction.HARD_DROP:
-        if (pressed) {
-          this.performHardDrop();
-        }
-        break;
-
-      case InputAction.ROTATE_CW:
-        if (pressed) {
-          if (this.rotatePiece(true)) {
-            this.soundManager.playPieceRotate();
-          }
-        }
-        break;
-
-      case InputAction.ROTATE_CCW:
-        if (pressed) {
-          if (this.rotatePiece(false)) {
-            this.soundManager.playPieceRotate();
-          }
-        }
-        break;
-
-      case InputAction.HOLD:
-        if (pressed && this.canHold) {
-          this.performHold();
-          this.soundManager.playHold();
-        }
-        break;
     }
   }
 
@@ -278,9 +641,14 @@ export class Game {
       this.currentPiece.position = newPosition;
       this.lastWasRotation = false;
 
-      // Reset lock timer if piece moved horizontally or rotated
-      if (dx !== 0 && this.currentPiece.locked) {
-        this.lockTimer = 0;
+      if (dy > 0) {
+        // Only stepping down to a new lowest row restarts the lock delay
+        this.currentPiece.locked = false;
+        if (this.updateLowestRow()) {
+          this.lockTimer = 0;
+        }
+      } else if (dx !== 0) {
+        this.resetLockDelay();
       }
 
       return true;
@@ -289,29 +657,91 @@ export class Game {
     return false;
   }
 
+  /**
+   * Check whether the current piece could fall one row
+   */
+  private canMoveDown(): boolean {
+    if (!this.currentPiece) return false;
+
+    const below = { x: this.currentPiece.position.x, y: this.currentPiece.position.y + 1 };
+    return this.board.isValidPosition(this.currentPiece.type, below, this.currentPiece.rotation);
+  }
+
+  /**
+   * Restore the extended placement allowance when the piece reaches a new lowest row, returning whether it did
+   */
+  private updateLowestRow(): boolean {
+    if (this.currentPiece && this.currentPiece.position.y > this.lowestRow) {
+      this.lowestRow = this.currentPiece.position.y;
+      this.lockResets = 0;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Whether extended placement has used up every lock reset on the current row
+   */
+  private lockResetsExhausted(): boolean {
+    const lockReset = this.mode.lockReset ?? this.options.lockReset ?? LockResetMode.EXTENDED;
+    return lockReset === LockResetMode.EXTENDED && this.lockResets >= MAX_LOCK_RESETS;
+  }
+
+  /**
+   * Apply the lock reset rule after a successful move or rotation
+   */
+  private resetLockDelay(): void {
+    if (!this.currentPiece) return;
+
+    // Kicks can push a piece down as well
+    if (this.updateLowestRow()) {
+      this.lockTimer = 0;
+    }
+    if (!this.currentPiece.locked) return;
+
+    switch (this.mode.lockReset ?? this.options.lockReset ?? LockResetMode.EXTENDED) {
+      case LockResetMode.EXTENDED:
+        if (this.lockResets < MAX_LOCK_RESETS) {
+          this.lockResets++;
+          this.lockTimer = 0;
+        }
+        break;
+
+      case LockResetMode.INFINITE:
+        this.lockTimer = 0;
+        break;
+
+      case LockResetMode.STEP:
+        // Only stepping down restarts the delay
+        break;
+    }
+  }
+
   /**
    * Rotate the current piece
    */
-  private rotatePiece(clockwise: boolean): boolean {
+  private rotatePiece(newRotation: RotationState): boolean {
     if (!this.currentPiece) return false;
 
     const oldRotation = this.currentPiece.rotation;
-    const newRotation = clockwise
-      ? PieceData.getNextRotationCW(oldRotation)
-      : PieceData.getNextRotationCCW(oldRotation);
+    const is180 = newRotation === PieceData.getRotation180(oldRotation);
 
     // Try basic rotation
     if (this.board.isValidPosition(this.currentPiece.type, this.currentPiece.position, newRotation)) {
       this.currentPiece.rotation = newRotation;
       this.lastWasRotation = true;
-      if (this.currentPiece.locked) {
-        this.lockTimer = 0;
-      }
+      this.lastRotationWas180 = is180;
+      this.lastKick = null;
+      this.resetLockDelay();
       return true;
     }
 
     // Try wall kicks
-    const kicks = PieceData.getWallKickOffsets(this.currentPiece.type, oldRotation, newRotation);
+    if (!this.rotationSystem.allowsKicks(this.board, this.currentPiece, newRotation)) {
+      return false;
+    }
+
+    const kicks = this.rotationSystem.getKicks(this.currentPiece.type, oldRotation, newRotation);
     for (const kick of kicks) {
       const kickPosition = {
         x: this.currentPiece.position.x + kick.x,
@@ -322,9 +752,9 @@ export class Game {
         this.currentPiece.position = kickPosition;
         this.currentPiece.rotation = newRotation;
         this.lastWasRotation = true;
-        if (this.currentPiece.locked) {
-          this.lockTimer = 0;
-        }
+        this.lastRotationWas180 = is180;
+        this.lastKick = kick;
+        this.resetLockDelay();
         return true;
       }
     }
@@ -338,12 +768,9 @@ export class Game {
   private performHardDrop(): void {
     if (!this.currentPiece) return;
 
-    let dropDistance = 0;
     while (this.movePiece(0, 1)) {
-      dropDistance++;
+      this.awardDrop(SCORE_HARD_DROP);
     }
-
-    this.stats.score += dropDistance * SCORE_HARD_DROP;
     
     // Emit landing event before locking for hard drop
     if (!this.currentPiece.locked) {
@@ -364,7 +791,7 @@ export class Game {
     if (this.holdPiece) {
       this.currentPiece = {
         type: this.holdPiece,
-        position: PieceData.getSpawnPosition(this.holdPiece),
+        position: this.rotationSystem.getSpawnPosition(this.holdPiece),
         rotation: RotationState.SPAWN,
         locked: false,
         lockTimer: 0,
@@ -377,6 +804,18 @@ export class Game {
     this.canHold = false;
     this.dropTimer = 0;
     this.lockTimer = 0;
+    this.lockResets = 0;
+    this.lowestRow = this.currentPiece.position.y;
+    this.dasCutTimer = msToFrames(this.handling.dcd);
+    this.pieceInputs = 0;
+    this.pieceSoftDropped = false;
+    this.pieceDropRows = 0;
+
+    // The swapped-in piece can be blocked out just like a fresh spawn
+    const { type, position, rotation } = this.currentPiece;
+    if (this.state === GameState.PLAYING && !this.board.isValidPosition(type, position, rotation)) {
+      this.endGame(GameOverReason.BLOCK_OUT);
+    }
   }
 
   /**
@@ -385,115 +824,398 @@ export class Game {
   private lockCurrentPiece(): void {
     if (!this.currentPiece) return;
 
+    if (this.placementStart) {
+      this.undoHistory.push(this.placementStart);
+      this.undoHistory.splice(0, this.undoHistory.length - MAX_UNDO_STEPS);
+      this.placementStart = null;
+    }
+
+    const lockedOut = this.board.isAboveVisibleField(
+      this.currentPiece.type,
+      this.currentPiece.position,
+      this.currentPiece.rotation
+    );
     this.board.lockPiece(
       this.currentPiece.type,
       this.currentPiece.position,
       this.currentPiece.rotation
     );
+    this.stats.pieces++;
+    this.stats.pieceCounts[this.currentPiece.type]++;
+    this.checkFinesse();
 
-    // Check for T-Spin
-    if (this.currentPiece.type === TetrominoType.T) {
-      const isTSpin = PieceData.isTSpin(
-        this.board.getGrid(),
-        this.currentPiece.position,
-        this.currentPiece.rotation,
-        this.lastWasRotation
-      );
-      
-      if (isTSpin) {
-        this.emit({ type: 'tspin' });
-      }
-    }
+    // Classify T-Spin before lines are removed
+    const tSpin = this.detectTSpin();
 
     this.emit({ type: 'piece_lock', data: { piece: this.currentPiece } });
     // Play piece lock sound
-    this.soundManager.playPieceLock();
+    this.soundManager?.playPieceLock();
 
     // Clear lines
     const clearedLines = this.board.clearLines();
+    let clear = { points: 0, backToBack: false };
     if (clearedLines.length > 0) {
-      this.handleLineClears(clearedLines.length);
+      clear = this.handleLineClears(clearedLines.length, tSpin);
+      this.recordSplits(clearedLines.length);
       this.emit({ type: 'line_clear', data: { lines: clearedLines } });
-      // Play line clear sound
-      this.soundManager.playLineClear(clearedLines.length);
+
+      if (this.board.isEmpty()) {
+        this.handlePerfectClear(clearedLines.length, clear.backToBack);
+      } else {
+        // Play line clear sound
+        this.soundManager?.playLineClear(clearedLines.length);
+      }
+      this.sendAttack(clearedLines.length, tSpin, clear.backToBack);
     } else {
       // Reset combo
       this.stats.combo = 0;
+      if (tSpin !== TSpinType.NONE && !this.master) {
+        // Zero-line T-Spins score but neither extend nor break back-to-back
+        clear.points = CLEAR_SCORES[tSpin][0] * (this.stats.level + 1);
+        this.stats.score += clear.points;
+        this.countTSpin(tSpin);
+      }
     }
 
-    // Check game over
+    if (tSpin !== TSpinType.NONE) {
+      this.emit({
+        type: 'tspin',
+        data: {
+          type: tSpin,
+          lines: clearedLines.length,
+          score: clear.points,
+          backToBack: clear.backToBack,
+          // 180 spins are credited like any other rotation; the flag lets listeners tell them apart
+          rotation180: this.lastRotationWas180,
+        },
+      });
+    }
+
+    // Check game over; a lock that clears lines brings the stack back down
     if (this.board.isGameOver()) {
-      this.state = GameState.GAME_OVER;
-      this.emit({ type: 'game_over' });
-      this.soundManager.playGameOver();
+      this.endGame(GameOverReason.TOP_OUT);
+      return;
+    }
+    if (lockedOut && clearedLines.length === 0) {
+      this.endGame(GameOverReason.LOCK_OUT);
       return;
     }
 
-    // Check for completion (999 lines)
-    if (this.stats.lines >= 999) {
-      this.state = GameState.COMPLETED;
+    // Received garbage rises only when a piece locks without clearing
+    if (clearedLines.length === 0) {
+      this.currentPiece = null; // Already part of the stack, so not lifted with it
+      this.insertReadyGarbage();
+      if (this.state !== GameState.PLAYING) return;
+    }
+
+    if (this.master) {
+      this.advanceMasterLevel(clearedLines.length);
+    }
+
+    // Check for completion
+    const lineGoal = this.mode.lineGoal;
+    const dugOut = this.getGarbageRows() > 0 && this.board.countGarbageRows() === 0;
+    if (this.master?.isComplete() || dugOut || (lineGoal !== null && this.stats.lines >= lineGoal)) {
+      this.completeGame();
       return;
     }
 
-    // Spawn next piece
-    this.spawnNextPiece();
+    // Spawn next piece, after the entry delay if the mode has one
     this.canHold = true;
+    const entryDelay = this.getEntryDelay(clearedLines.length);
+    if (entryDelay > 0) {
+      this.currentPiece = null;
+      this.areTimer = entryDelay;
+    } else {
+      this.dealNextPiece();
+    }
+  }
+
+  /**
+   * Push a garbage row up whenever the rising garbage interval runs out, then speed it up
+   */
+  private updateRisingGarbage(rising: RisingGarbage): void {
+    this.garbageTimer++;
+    if (this.garbageTimer < msToFrames(this.garbageInterval)) return;
+
+    this.garbageTimer = 0;
+    this.garbageInterval = Math.max(rising.minInterval, this.garbageInterval * rising.acceleration);
+
+    const messiness = this.options.garbageMessiness ?? DEFAULT_GARBAGE_MESSINESS;
+    const holes = generateGarbageHoles(this.garbageRandom, 1, messiness, this.lastGarbageHole);
+    this.lastGarbageHole = holes[0];
+    this.addGarbage(holes);
+  }
+
+  /**
+   * Push garbage rows in under the stack, lifting the falling piece clear of them
+   * @param holes Empty column of each row, in the order the rows are pushed
+   */
+  private addGarbage(holes: number[]): void {
+    const rows = holes.length;
+    this.board.insertGarbage(holes);
+    this.garbageReceived += rows;
+
+    if (this.currentPiece) {
+      const { type, rotation } = this.currentPiece;
+      while (!this.board.isValidPosition(type, this.currentPiece.position, rotation)) {
+        this.currentPiece.position = { ...this.currentPiece.position, y: this.currentPiece.position.y - 1 };
+      }
+    }
+
+    this.emit({ type: 'garbage', data: { rows } });
+    if (this.board.isGameOver()) {
+      this.endGame(GameOverReason.TOP_OUT);
+    }
+  }
+
+  /**
+   * Queue garbage sent by an opponent; it can rise once the garbage delay has passed
+   */
+  receiveGarbage(lines: number): void {
+    if (lines <= 0 || this.state !== GameState.PLAYING) return;
+
+    const delay = msToFrames(this.options.garbageDelay ?? GARBAGE_DELAY);
+    this.incomingGarbage.push({ lines, readyFrame: this.frame + delay });
+    this.emit({ type: 'garbage_incoming', data: { lines, pending: this.getPendingGarbage() } });
+  }
+
+  /**
+   * Turn a clear into attack: cancel incoming garbage first and send what is left
+   */
+  private sendAttack(lines: number, tSpin: TSpinType, backToBack: boolean): void {
+    const attack = calculateAttack(this.options.attackTable ?? GUIDELINE_ATTACK_TABLE, {
+      lines,
+      tSpin,
+      backToBack,
+      combo: this.stats.combo,
+      perfectClear: this.board.isEmpty(),
+    });
+    if (attack === 0) return;
+    this.stats.attack += attack;
+
+    let remaining = attack;
+    let cancelled = 0;
+    while (remaining > 0 && this.incomingGarbage.length > 0) {
+      const entry = this.incomingGarbage[0];
+      const used = Math.min(remaining, entry.lines);
+      entry.lines -= used;
+      remaining -= used;
+      cancelled += used;
+      if (entry.lines === 0) {
+        this.incomingGarbage.shift();
+      }
+    }
+
+    if (cancelled > 0) {
+      this.emit({ type: 'garbage_cancel', data: { lines: cancelled, pending: this.getPendingGarbage() } });
+    }
+    if (remaining > 0) {
+      this.emit({ type: 'attack', data: { lines: remaining, total: attack } });
+    }
+  }
+
+  /**
+   * Raise all received garbage whose delay has passed; each attack keeps its own hole column
+   */
+  private insertReadyGarbage(): void {
+    const ready = this.incomingGarbage.filter(entry => entry.readyFrame <= this.frame);
+    if (ready.length === 0) return;
+
+    this.incomingGarbage = this.incomingGarbage.filter(entry => entry.readyFrame > this.frame);
+    const holes = ready.flatMap(entry => generateGarbageHoles(this.garbageRandom, entry.lines, 0));
+    this.addGarbage(holes);
+  }
+
+  /**
+   * Move the Master level counter on after a lock, reporting finished sections
+   */
+  private advanceMasterLevel(lines: number): void {
+    if (!this.master) return;
+
+    const sections = this.master.advance(lines, this.getElapsedTime(), this.stats.score);
+    this.stats.level = this.master.getLevel();
+    const sectionTimes = this.master.getSectionTimes();
+    for (const section of sections) {
+      this.emit({ type: 'section', data: { section, time: sectionTimes[section] } });
+      this.soundManager?.playLevelUp();
+    }
+  }
+
+  /**
+   * Count rows dropped by the current piece; Master mode folds them into its clear score instead
+   */
+  private awardDrop(pointsPerRow: number): void {
+    this.pieceDropRows++;
+    if (!this.master) {
+      this.stats.score += pointsPerRow;
+    }
+  }
+
+  /**
+   * Count a finesse fault when the piece took more key presses than the optimal sequence
+   * Soft-dropped pieces may be tucks or spins, so they are not judged
+   */
+  private checkFinesse(): void {
+    if (!this.currentPiece || this.pieceSoftDropped || this.options.inputStats === false) return;
+
+    const { type, position, rotation } = this.currentPiece;
+    const optimal = findFinesseSequence(this.rotationSystem, type, position.x, rotation);
+    if (optimal && this.pieceInputs > optimal.length) {
+      this.stats.finesseFaults++;
+      this.emit({
+        type: 'finesse_fault',
+        data: { piece: type, inputs: this.pieceInputs, optimal, faults: this.stats.finesseFaults },
+      });
+    }
+  }
+
+  /**
+   * Record split times for every split line count passed by the last clear
+   */
+  private recordSplits(numLines: number): void {
+    const { splitLines, lineGoal } = this.mode;
+    if (splitLines === null) return;
+
+    const time = this.getElapsedTime();
+    const previousLines = this.stats.lines - numLines;
+    for (
+      let lines = (Math.floor(previousLines / splitLines) + 1) * splitLines;
+      lines <= this.stats.lines && (lineGoal === null || lines <= lineGoal);
+      lines += splitLines
+    ) {
+      this.splits.push(time);
+      this.emit({ type: 'split', data: { lines, time } });
+    }
+  }
+
+  /**
+   * Finish the game by reaching the mode's goal
+   */
+  private completeGame(): void {
+    this.state = GameState.COMPLETED;
+    this.emit({ type: 'game_complete', data: { mode: this.mode.type, time: this.getElapsedTime() } });
+  }
+
+  /**
+   * Stop play when the mode's time limit runs out; the falling piece is discarded
+   */
+  private endTimeUp(): void {
+    this.state = GameState.TIME_UP;
+    this.emit({ type: 'time_up', data: { mode: this.mode.type, score: this.stats.score } });
+  }
+
+  /**
+   * Classify the current piece as a T-Spin, if it is one
+   */
+  private detectTSpin(): TSpinType {
+    if (!this.currentPiece || this.currentPiece.type !== TetrominoType.T) {
+      return TSpinType.NONE;
+    }
+
+    // The 1x2 "TST" kick of a 90 degree rotation always counts as a full T-Spin
+    const usedTstKick =
+      !this.lastRotationWas180 &&
+      this.lastKick !== null &&
+      Math.abs(this.lastKick.x) === 1 &&
+      Math.abs(this.lastKick.y) === 2;
+
+    return PieceData.getTSpinType(
+      this.board.getGrid(),
+      this.rotationSystem.getShape(TetrominoType.T, this.currentPiece.rotation),
+      this.currentPiece.position,
+      this.lastWasRotation,
+      usedTstKick
+    );
+  }
+
+  /**
+   * Count a T-Spin in the stats
+   */
+  private countTSpin(tSpin: TSpinType): void {
+    if (tSpin === TSpinType.FULL) {
+      this.stats.tSpins++;
+    } else if (tSpin === TSpinType.MINI) {
+      this.stats.tSpinMinis++;
+    }
   }
 
   /**
    * Handle line clears and scoring
+   * @returns Points awarded and whether the back-to-back bonus applied
    */
-  private handleLineClears(numLines: number): void {
+  private handleLineClears(
+    numLines: number,
+    tSpin: TSpinType = TSpinType.NONE
+  ): { points: number; backToBack: boolean } {
     this.stats.lines += numLines;
     
+    if (numLines >= 4) {
+      this.stats.tetrises++;
+    }
+
     // Update combo
     this.stats.combo++;
+    this.stats.maxCombo = Math.max(this.stats.maxCombo, this.stats.combo);
     if (this.stats.combo > 1) {
       this.emit({ type: 'combo', data: { combo: this.stats.combo } });
     }
 
-    // Calculate score
-    let baseScore = 0;
-    switch (numLines) {
-      case 1:
-        baseScore = SCORE_SINGLE;
-        this.stats.backToBack = false;
-        break;
-      case 2:
-        baseScore = SCORE_DOUBLE;
-        this.stats.backToBack = false;
-        break;
-      case 3:
-        baseScore = SCORE_TRIPLE;
-        this.stats.backToBack = false;
-        break;
-      case 4:
-        baseScore = SCORE_TETRIS;
-        if (this.stats.backToBack) {
-          baseScore *= 1.5;
-        }
-        this.stats.backToBack = true;
-        break;
+    if (this.master) {
+      // Lines were already removed, so an empty board means a bravo
+      const points = this.master.scoreClear(numLines, this.pieceDropRows, this.board.isEmpty());
+      this.stats.score += points;
+      return { points, backToBack: false };
     }
 
+    // Calculate score; Tetrises and T-Spins are difficult clears that chain back-to-back
+    let baseScore = CLEAR_SCORES[tSpin][numLines] ?? 0;
+    const difficult = numLines >= 4 || tSpin !== TSpinType.NONE;
+    const backToBack = difficult && this.stats.backToBack;
+    if (backToBack) {
+      baseScore *= BACK_TO_BACK_MULTIPLIER;
+    }
+    this.stats.backToBack = difficult;
+    this.countTSpin(tSpin);
+
     // Apply level multiplier and combo bonus
-    this.stats.score += baseScore * (this.stats.level + 1) + (50 * this.stats.combo * (this.stats.level + 1));
+    const points = baseScore * (this.stats.level + 1) + (50 * this.stats.combo * (this.stats.level + 1));
+    this.stats.score += points;
 
     // Update level (every 10 lines)
     const newLevel = Math.min(Math.floor(this.stats.lines / 10), 29);
     if (newLevel > this.stats.level) {
       this.stats.level = newLevel;
       this.emit({ type: 'level_up', data: { level: newLevel } });
-      this.soundManager.playLevelUp();
+      this.soundManager?.playLevelUp();
     }
+
+    return { points, backToBack };
+  }
+
+  /**
+   * Award the bonus for a clear that emptied the board
+   * @param backToBack Whether the clear itself was a back-to-back difficult clear
+   */
+  private handlePerfectClear(numLines: number, backToBack: boolean): void {
+    const baseScore = backToBack && numLines === 4
+      ? SCORE_PERFECT_CLEAR_B2B_TETRIS
+      : PERFECT_CLEAR_SCORES[Math.min(numLines, 4)];
+    // Master scoring already multiplied the clear for the bravo
+    const points = this.master ? 0 : baseScore * (this.stats.level + 1);
+
+    this.stats.score += points;
+    this.stats.perfectClears++;
+    this.emit({ type: 'perfect_clear', data: { lines: numLines, score: points, backToBack } });
+    this.soundManager?.playPerfectClear();
   }
 
   /**
    * Spawn the next piece
    */
   private spawnNextPiece(): void {
-    const type = this.bag.next();
-    const position = PieceData.getSpawnPosition(type);
+    const type = this.randomizer.next();
+    const position = this.rotationSystem.getSpawnPosition(type);
 
     this.currentPiece = {
       type,
@@ -505,22 +1227,82 @@ export class Game {
 
     this.dropTimer = 0;
     this.lockTimer = 0;
+    this.lockResets = 0;
+    this.lowestRow = position.y;
+    this.dasCutTimer = msToFrames(this.handling.dcd);
+    this.pieceInputs = 0;
+    this.pieceSoftDropped = false;
+    this.pieceDropRows = 0;
     this.lastWasRotation = false;
 
     // Check if the spawn position is valid
     if (!this.board.isValidPosition(type, position, RotationState.SPAWN)) {
-      this.state = GameState.GAME_OVER;
-      this.emit({ type: 'game_over' });
+      this.endGame(GameOverReason.BLOCK_OUT);
     }
   }
 
   /**
-   * Get drop interval based on level
+   * Spawn a fresh piece (not one swapped in by hold); in practice play, remember where it started for undo
+   */
+  private dealNextPiece(): void {
+    this.spawnNextPiece();
+    if (this.options.practice && this.state === GameState.PLAYING) {
+      this.placementStart = this.getSnapshot();
+    }
+  }
+
+  /**
+   * End the game, reporting why in the game_over event
+   */
+  private endGame(reason: GameOverReason): void {
+    this.state = GameState.GAME_OVER;
+    this.gameOverReason = reason;
+    this.emit({ type: 'game_over', data: { reason } });
+    this.soundManager?.playGameOver();
+  }
+
+  /**
+   * Get drop interval in frames based on level
    */
   private getDropInterval(): number {
+    if (this.master) {
+      // Below one frame per row the piece falls several rows a frame; 20G reaches the floor at once
+      return GRAVITY_UNIT / getMasterGravity(this.stats.level);
+    }
+
     // Standard marathon speed curve
-    const framesPerDrop = Math.max(1, 48 - (this.stats.level * 2));
-    return (framesPerDrop / 60) * 1000; // Convert to milliseconds
+    return Math.max(1, 48 - (this.stats.level * 2));
+  }
+
+  /**
+   * Get the starting garbage rows; the game options override the mode's count
+   */
+  private getGarbageRows(): number {
+    return this.options.garbageRows ?? this.mode.garbageRows;
+  }
+
+  /**
+   * Get the DAS delay in frames; Master sections override the player's setting
+   */
+  private getDasFrames(): number {
+    return this.master ? getMasterDelays(this.stats.level).das : msToFrames(this.handling.das);
+  }
+
+  /**
+   * Get the lock delay in frames
+   */
+  private getLockDelayFrames(): number {
+    return this.master ? getMasterDelays(this.stats.level).lock : msToFrames(LOCK_DELAY);
+  }
+
+  /**
+   * Get the frames between a lock and the next piece, including any line clear delay
+   */
+  private getEntryDelay(lines: number): number {
+    if (!this.master) return 0;
+
+    const delays = getMasterDelays(this.stats.level);
+    return lines > 0 ? delays.lineClear + delays.lineAre : delays.are;
   }
 
   /**
@@ -546,6 +1328,287 @@ export class Game {
     }
   }
 
+  /**
+   * Change the player handling; takes effect from the next start so a game never mixes settings
+   */
+  setHandling(handling: HandlingSettings): void {
+    this.options = { ...this.options, handling: { ...handling } };
+  }
+
+  /**
+   * Change the game mode; takes effect from the next start
+   */
+  setMode(mode: GameModeType): void {
+    this.options = { ...this.options, mode };
+  }
+
+  /**
+   * Turn practice play (undo) on or off; takes effect from the next start
+   */
+  setPractice(practice: boolean): void {
+    this.options = { ...this.options, practice };
+  }
+
+  /**
+   * Fix the randomizer seed for following starts, so several games can deal the same pieces
+   */
+  setSeed(seed: number): void {
+    this.options = { ...this.options, seed };
+  }
+
+  /**
+   * End play as a win, e.g. when the opponent tops out
+   */
+  finish(): void {
+    if (this.state !== GameState.PLAYING && this.state !== GameState.PAUSED) return;
+    this.completeGame();
+  }
+
+  /**
+   * Whether a game is being played or paused, as opposed to not started or over
+   */
+  isInProgress(): boolean {
+    return this.state === GameState.PLAYING || this.state === GameState.PAUSED;
+  }
+
+  /**
+   * Capture the full game state so it can be resumed later, e.g. after a reload
+   */
+  getSnapshot(): GameSnapshot {
+    const { sound: _sound, ...options } = this.options;
+    return {
+      version: SNAPSHOT_VERSION,
+      savedAt: new Date().toISOString(),
+      seed: this.seed,
+      options,
+      mode: this.mode.type,
+      handling: { ...this.handling },
+      state: this.state,
+      gameOverReason: this.gameOverReason,
+      stats: this.getStats(),
+      grid: this.board.getGrid().map(row => [...row]),
+      currentPiece: this.currentPiece
+        ? { ...this.currentPiece, position: { ...this.currentPiece.position } }
+        : null,
+      holdPiece: this.holdPiece,
+      canHold: this.canHold,
+      randomizer: this.randomizer.getState(),
+      garbageRandom: this.garbageRandom.getState(),
+      master: this.master?.getState() ?? null,
+      frame: this.frame,
+      countdownFrames: this.countdownFrames,
+      startFrame: this.startFrame,
+      splits: [...this.splits],
+      areTimer: this.areTimer,
+      garbageTimer: this.garbageTimer,
+      garbageInterval: this.garbageInterval,
+      lastGarbageHole: this.lastGarbageHole ?? null,
+      garbageReceived: this.garbageReceived,
+      incomingGarbage: this.incomingGarbage.map(entry => ({ ...entry })),
+      dropTimer: this.dropTimer,
+      lockTimer: this.lockTimer,
+      lockResets: this.lockResets,
+      lowestRow: this.lowestRow,
+      previousPosition: this.previousPosition ? { ...this.previousPosition } : null,
+      lastWasRotation: this.lastWasRotation,
+      lastRotationWas180: this.lastRotationWas180,
+      lastKick: this.lastKick ? { ...this.lastKick } : null,
+      pieceInputs: this.pieceInputs,
+      pieceSoftDropped: this.pieceSoftDropped,
+      pieceDropRows: this.pieceDropRows,
+    };
+  }
+
+  /**
+   * Continue a game from a snapshot, replacing the current one
+   * A game saved mid-play comes back paused so the player can pick it up when ready
+   */
+  restoreSnapshot(snapshot: GameSnapshot): void {
+    this.loadSnapshot(snapshot);
+    this.state = snapshot.state === GameState.PLAYING ? GameState.PAUSED : snapshot.state;
+    this.undoHistory = [];
+    this.placementStart = null;
+
+    // Keys held when the game was saved are not held now
+    this.dasTimer = 0;
+    this.dasDirection = null;
+    this.dasCutTimer = 0;
+    this.softDropTimer = 0;
+    this.isSoftDropping = false;
+
+    this.emit({ type: 'game_restore', data: { seed: this.seed, mode: this.mode.type } });
+  }
+
+  /**
+   * Take back the last placement in practice play, returning to the moment that piece spawned
+   * The clock keeps running, so play time and replay frames only move forward
+   * @returns false when there is nothing to undo or the game is not practice play
+   */
+  undo(): boolean {
+    if (this.state !== GameState.PLAYING) return false;
+    const snapshot = this.undoHistory.pop();
+    if (!snapshot) return false;
+
+    const { frame, startFrame } = this;
+    const undos = this.stats.undos + 1;
+    this.loadSnapshot(snapshot);
+    this.state = GameState.PLAYING;
+    this.frame = frame;
+    this.startFrame = startFrame;
+    this.stats.undos = undos;
+    this.placementStart = snapshot;
+
+    this.emit({ type: 'undo', data: { remaining: this.undoHistory.length, undos } });
+    return true;
+  }
+
+  /**
+   * Get how many placements can still be undone
+   */
+  getUndoCount(): number {
+    return this.undoHistory.length;
+  }
+
+  /**
+   * Replace the game state with a snapshot's
+   */
+  private loadSnapshot(snapshot: GameSnapshot): void {
+    this.options = { ...snapshot.options, sound: this.options.sound };
+    this.seed = snapshot.seed;
+    this.handling = { ...snapshot.handling };
+    this.mode = getGameMode(snapshot.mode);
+    this.rotationSystem = getRotationSystem(this.options.rotationSystem ?? RotationSystemType.SRS);
+    this.board = new Board(this.rotationSystem);
+    this.board.setGrid(snapshot.grid);
+    this.randomizer = createRandomizer(
+      this.options.randomizer ?? RandomizerType.BAG_7,
+      this.seed,
+      this.options.pieceSequence
+    );
+    this.randomizer.setState(snapshot.randomizer);
+    this.garbageRandom = createGarbageRandom(this.seed);
+    this.garbageRandom.setState(snapshot.garbageRandom);
+    this.master = null;
+    if (snapshot.master) {
+      this.master = new MasterProgression();
+      this.master.setState(snapshot.master);
+    }
+
+    this.state = snapshot.state;
+    this.gameOverReason = snapshot.gameOverReason;
+    this.stats = { ...snapshot.stats, pieceCounts: { ...snapshot.stats.pieceCounts } };
+    this.currentPiece = snapshot.currentPiece
+      ? { ...snapshot.currentPiece, position: { ...snapshot.currentPiece.position } }
+      : null;
+    this.holdPiece = snapshot.holdPiece;
+    this.canHold = snapshot.canHold;
+    this.clock.reset();
+    this.frame = snapshot.frame;
+    this.countdownFrames = snapshot.countdownFrames;
+    this.startFrame = snapshot.startFrame;
+    this.splits = [...snapshot.splits];
+    this.areTimer = snapshot.areTimer;
+    this.garbageTimer = snapshot.garbageTimer;
+    this.garbageInterval = snapshot.garbageInterval;
+    this.lastGarbageHole = snapshot.lastGarbageHole ?? undefined;
+    this.garbageReceived = snapshot.garbageReceived;
+    this.incomingGarbage = snapshot.incomingGarbage.map(entry => ({ ...entry }));
+    this.dropTimer = snapshot.dropTimer;
+    this.lockTimer = snapshot.lockTimer;
+    this.lockResets = snapshot.lockResets;
+    this.lowestRow = snapshot.lowestRow;
+    this.previousPosition = snapshot.previousPosition ? { ...snapshot.previousPosition } : null;
+    this.lastWasRotation = snapshot.lastWasRotation;
+    this.lastRotationWas180 = snapshot.lastRotationWas180;
+    this.lastKick = snapshot.lastKick ? { ...snapshot.lastKick } : null;
+    this.pieceInputs = snapshot.pieceInputs;
+    this.pieceSoftDropped = snapshot.pieceSoftDropped;
+    this.pieceDropRows = snapshot.pieceDropRows;
+  }
+
+  /**
+   * Get the rules of the mode being played
+   */
+  getMode(): GameMode {
+    return this.mode;
+  }
+
+  /**
+   * Get the play time in milliseconds, counted in simulation frames from the end of the countdown
+   */
+  getElapsedTime(): number {
+    const frames = this.countdownFrames > 0 ? 0 : this.frame - this.startFrame;
+    return (frames * 1000) / SIMULATION_FPS;
+  }
+
+  /**
+   * Get the play time left before time is up, or null when the mode has no limit
+   */
+  getRemainingTime(): number | null {
+    if (this.mode.timeLimit === null) return null;
+    return Math.max(0, this.mode.timeLimit - this.getElapsedTime());
+  }
+
+  /**
+   * Get the time until the next rising garbage row and the current interval (ms),
+   * or null when the mode has no rising garbage
+   */
+  getGarbageCountdown(): { remaining: number; interval: number } | null {
+    if (!this.mode.risingGarbage) return null;
+
+    const elapsed = (this.garbageTimer * 1000) / SIMULATION_FPS;
+    return { remaining: Math.max(0, this.garbageInterval - elapsed), interval: this.garbageInterval };
+  }
+
+  /**
+   * Get the received garbage lines still waiting to rise
+   */
+  getPendingGarbage(): number {
+    return this.incomingGarbage.reduce((total, entry) => total + entry.lines, 0);
+  }
+
+  /**
+   * Get rate statistics over the play time so far
+   */
+  getPerformanceStats(): PerformanceStats {
+    return getPerformanceStats(this.stats, this.getElapsedTime());
+  }
+
+  /**
+   * Get the number of garbage rows pushed in during play
+   */
+  getGarbageReceived(): number {
+    return this.garbageReceived;
+  }
+
+  /**
+   * Get the Master grade earned so far, or null outside Master mode
+   */
+  getGrade(): string | null {
+    return this.master ? this.master.getGrade(this.stats.score) : null;
+  }
+
+  /**
+   * Get the time taken by each completed Master section
+   */
+  getSectionTimes(): number[] {
+    return this.master ? this.master.getSectionTimes() : [];
+  }
+
+  /**
+   * Get the elapsed time at each split reached so far
+   */
+  getSplits(): number[] {
+    return [...this.splits];
+  }
+
+  /**
+   * Get the handling in effect for the current game
+   */
+  getHandling(): HandlingSettings {
+    return { ...this.handling };
+  }
+
   /**
    * Emit game event
    */
@@ -558,12 +1621,44 @@ export class Game {
 
   // Getters
   getState(): GameState { return this.state; }
-  getStats(): GameStats { return { ...this.stats }; }
+  getGameOverReason(): GameOverReason | null { return this.gameOverReason; }
+  getSeed(): number { return this.seed; }
+  getOptions(): GameOptions { return { ...this.options }; }
+  getFrame(): number { return this.frame; }
+  getStats(): GameStats { return { ...this.stats, pieceCounts: { ...this.stats.pieceCounts } }; }
   getBoard(): Board { return this.board; }
+  getRotationSystem(): RotationSystem { return this.rotationSystem; }
   getCurrentPiece(): Piece | null { return this.currentPiece; }
   getHoldPiece(): TetrominoType | null { return this.holdPiece; }
-  getNextPieces(count: number): TetrominoType[] { return this.bag.preview(count); }
+  isHoldAvailable(): boolean { return this.canHold; }
+  getNextPieces(count: number): TetrominoType[] { return this.randomizer.preview(count); }
   
+  /**
+   * Get how far real time has progressed into the next simulation frame (0 to 1)
+   */
+  getInterpolationAlpha(): number {
+    return this.clock.getAlpha();
+  }
+
+  /**
+   * Get the current piece position blended between the last two simulation frames
+   * Only single-row drops are blended; any other movement snaps to the grid
+   */
+  getInterpolatedPiecePosition(): Position | null {
+    if (!this.currentPiece) return null;
+
+    const current = this.currentPiece.position;
+    const previous = this.previousPosition;
+    if (!previous || previous.x !== current.x || current.y - previous.y !== 1) {
+      return { ...current };
+    }
+
+    return {
+      x: current.x,
+      y: previous.y + this.getInterpolationAlpha(),
+    };
+  }
+
   getGhostPosition(): Position | null {
     if (!this.currentPiece) return null;
     return this.board.getGhostPosition(
@@ -574,9 +1669,9 @@ export class Game {
   }
 
   /**
-   * Get sound manager for external control
+   * Get sound manager for external control, or null when sound is off
    */
-  getSoundManager(): SoundManager {
+  getSoundManager(): SoundManager | null {
     return this.soundManager;
   }
 
@@ -584,6 +1679,6 @@ export class Game {
    * Cleanup resources
    */
   destroy(): void {
-    this.soundManager.destroy();
+    this.soundManager?.destroy();
   }
 }
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { BOARD_WIDTH } from '@/types/tetris';
+import { SeededRandom } from './randomizer';
+
+/**
+ * Mixed into the game seed so garbage does not mirror the piece sequence
+ */
+const GARBAGE_SEED_SALT = 0x5bd1e995;
+
+/**
+ * Create the generator for a game's garbage holes
+ */
+export function createGarbageRandom(seed: number): SeededRandom {
+  return new SeededRandom(seed ^ GARBAGE_SEED_SALT);
+}
+
+/**
+ * Pick the hole column of each garbage row
+ * @param messiness Chance (0-1) that a row's hole moves away from the previous row's column;
+ * 0 stacks every hole into one well, 1 never lines two holes up
+ * @param previousHole Hole of the row already below, to continue a stack pushed in over time
+ */
+export function generateGarbageHoles(
+  rng: SeededRandom,
+  rows: number,
+  messiness: number,
+  previousHole?: number
+): number[] {
+  const chance = Math.min(Math.max(messiness, 0), 1);
+  const holes: number[] = [];
+  let hole = previousHole ?? rng.nextInt(BOARD_WIDTH);
+
+  for (let i = 0; i < rows; i++) {
+    if ((i > 0 || previousHole !== undefined) && rng.next() < chance) {
+      // Any other column, uniformly
+      hole = (hole + 1 + rng.nextInt(BOARD_WIDTH - 1)) % BOARD_WIDTH;
+    }
+    holes.push(hole);
+  }
+
+  return holes;
+}
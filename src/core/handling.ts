@@ -0,0 +1,28 @@
+import { HandlingSettings, DEFAULT_HANDLING, SDF_INSTANT } from '@/types/tetris';
+
+/**
+ * Allowed range for each handling setting
+ */
+export const HANDLING_LIMITS: Record<keyof HandlingSettings, { min: number; max: number }> = {
+  das: { min: 0, max: 1000 },
+  arr: { min: 0, max: 500 },
+  sdf: { min: 1, max: SDF_INSTANT },
+  dcd: { min: 0, max: 500 },
+};
+
+/**
+ * Fill in missing handling values with defaults and clamp the rest into range
+ */
+export function normalizeHandling(settings: Partial<HandlingSettings> = {}): HandlingSettings {
+  const result = { ...DEFAULT_HANDLING };
+
+  for (const key of Object.keys(HANDLING_LIMITS) as (keyof HandlingSettings)[]) {
+    const value = settings[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+
+    const { min, max } = HANDLING_LIMITS[key];
+    result[key] = Math.min(max, Math.max(min, value));
+  }
+
+  return result;
+}
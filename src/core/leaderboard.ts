@@ -0,0 +1,123 @@
+import {
+  GameState,
+  GameModeType,
+  LeaderboardEntry,
+  LockResetMode,
+  RandomizerType,
+  RotationSystemType,
+  LEADERBOARD_SIZE,
+} from '@/types/tetris';
+import { Game } from './game';
+
+/**
+ * What puts one run above another on a mode's leaderboard
+ */
+export type LeaderboardRanking =
+  /** Highest score */
+  | 'score'
+  /** Shortest time to the goal */
+  | 'fastest'
+  /** Longest time survived */
+  | 'longest'
+  /** Highest level, then shortest time */
+  | 'level';
+
+/**
+ * Ranking per mode; null for modes without a leaderboard
+ */
+const MODE_RANKINGS: Record<GameModeType, LeaderboardRanking | null> = {
+  [GameModeType.MARATHON]: 'score',
+  [GameModeType.SPRINT]: 'fastest',
+  [GameModeType.ULTRA]: 'score',
+  [GameModeType.MASTER]: 'level',
+  [GameModeType.DIG]: 'fastest',
+  [GameModeType.SURVIVAL]: 'longest',
+  [GameModeType.VERSUS]: null,
+};
+
+const FINISHED_STATES = [GameState.GAME_OVER, GameState.COMPLETED, GameState.TIME_UP];
+
+/**
+ * Get how a mode's leaderboard is ranked
+ */
+export function getLeaderboardRanking(mode: GameModeType): LeaderboardRanking | null {
+  return MODE_RANKINGS[mode];
+}
+
+/**
+ * Name the rules a game was played under, so runs are only ranked against the same rules
+ * Practice runs, which may undo placements, get boards of their own
+ */
+export function getRuleset(game: Game): string {
+  const options = game.getOptions();
+  const rules: string[] = [
+    options.rotationSystem ?? RotationSystemType.SRS,
+    options.randomizer ?? RandomizerType.BAG_7,
+    game.getMode().lockReset ?? options.lockReset ?? LockResetMode.EXTENDED,
+  ];
+  if (options.practice) rules.push('PRACTICE');
+  return rules.join('-');
+}
+
+/**
+ * Compare two runs
+ * @returns A negative number when a ranks above b, positive when below, 0 on a tie
+ */
+export function compareLeaderboardEntries(
+  ranking: LeaderboardRanking,
+  a: LeaderboardEntry,
+  b: LeaderboardEntry
+): number {
+  switch (ranking) {
+    case 'score':
+      return b.score - a.score;
+    case 'fastest':
+      return a.time - b.time;
+    case 'longest':
+      return b.time - a.time;
+    case 'level':
+      return b.level - a.level || a.time - b.time;
+  }
+}
+
+/**
+ * Find where a run would place on a leaderboard; ties rank below the earlier run
+ * @returns The 0-based position, or null if it falls outside the top LEADERBOARD_SIZE
+ */
+export function findLeaderboardPosition(
+  ranking: LeaderboardRanking,
+  entries: LeaderboardEntry[],
+  entry: LeaderboardEntry
+): number | null {
+  const index = entries.findIndex(existing => compareLeaderboardEntries(ranking, entry, existing) < 0);
+  const position = index === -1 ? entries.length : index;
+  return position < LEADERBOARD_SIZE ? position : null;
+}
+
+/**
+ * Build the leaderboard entry for a finished game, without a name or replay yet
+ * @returns null when the run does not count: modes without a leaderboard,
+ * games still running, and races that ended before reaching the goal
+ */
+export function createLeaderboardEntry(game: Game): LeaderboardEntry | null {
+  const ranking = getLeaderboardRanking(game.getMode().type);
+  const state = game.getState();
+  if (!ranking || !FINISHED_STATES.includes(state)) {
+    return null;
+  }
+  if (ranking === 'fastest' && state !== GameState.COMPLETED) {
+    return null;
+  }
+
+  const stats = game.getStats();
+  return {
+    name: '',
+    score: stats.score,
+    lines: stats.lines,
+    level: stats.level,
+    time: game.getElapsedTime(),
+    date: new Date().toISOString(),
+    replayId: null,
+    undos: stats.undos,
+  };
+}
@@ -0,0 +1,250 @@
+import { MASTER_MAX_LEVEL, MASTER_SECTION_LEVELS } from '@/types/tetris';
+
+/**
+ * Gravity of 20 rows per frame, enough to reach the floor at once
+ */
+export const GRAVITY_20G = 5120;
+
+/**
+ * Gravity units per row: gravity is measured in 1/256 rows per frame
+ */
+export const GRAVITY_UNIT = 256;
+
+/**
+ * TGM gravity curve: [first level, gravity in 1/256 rows per frame]
+ */
+const MASTER_GRAVITY: [number, number][] = [
+  [0, 4],
+  [30, 6],
+  [35, 8],
+  [40, 10],
+  [50, 12],
+  [60, 16],
+  [70, 32],
+  [80, 48],
+  [90, 64],
+  [100, 80],
+  [120, 96],
+  [140, 112],
+  [160, 128],
+  [170, 144],
+  [200, 4],
+  [220, 32],
+  [230, 64],
+  [233, 96],
+  [236, 128],
+  [239, 160],
+  [243, 192],
+  [247, 224],
+  [251, 256],
+  [300, 512],
+  [330, 768],
+  [360, 1024],
+  [400, 1280],
+  [420, 1024],
+  [450, 768],
+  [500, GRAVITY_20G],
+];
+
+/**
+ * Delays in frames for one speed section
+ */
+export interface MasterDelays {
+  /** Entry delay between a lock and the next piece */
+  are: number;
+  /** Entry delay after a line clear, on top of the clear delay */
+  lineAre: number;
+  lineClear: number;
+  lock: number;
+  das: number;
+}
+
+/**
+ * Delay curve by section: [first level, delays]
+ */
+const MASTER_DELAYS: [number, MasterDelays][] = [
+  [0, { are: 25, lineAre: 25, lineClear: 40, lock: 30, das: 14 }],
+  [500, { are: 25, lineAre: 25, lineClear: 25, lock: 30, das: 8 }],
+  [600, { are: 25, lineAre: 16, lineClear: 16, lock: 30, das: 8 }],
+  [700, { are: 16, lineAre: 12, lineClear: 12, lock: 30, das: 8 }],
+  [800, { are: 12, lineAre: 6, lineClear: 6, lock: 30, das: 8 }],
+  [900, { are: 12, lineAre: 6, lineClear: 6, lock: 17, das: 6 }],
+];
+
+/**
+ * Grades in ascending order with the score needed for each
+ */
+const MASTER_GRADES: { grade: string; score: number }[] = [
+  { grade: '9', score: 0 },
+  { grade: '8', score: 400 },
+  { grade: '7', score: 800 },
+  { grade: '6', score: 1400 },
+  { grade: '5', score: 2000 },
+  { grade: '4', score: 3500 },
+  { grade: '3', score: 5500 },
+  { grade: '2', score: 8000 },
+  { grade: '1', score: 12000 },
+  { grade: 'S1', score: 16000 },
+  { grade: 'S2', score: 22000 },
+  { grade: 'S3', score: 30000 },
+  { grade: 'S4', score: 40000 },
+  { grade: 'S5', score: 52000 },
+  { grade: 'S6', score: 66000 },
+  { grade: 'S7', score: 82000 },
+  { grade: 'S8', score: 100000 },
+  { grade: 'S9', score: 120000 },
+];
+
+export const GRAND_MASTER = 'GM';
+
+/**
+ * Grand Master checkpoints: score and time (ms) needed on reaching each level
+ */
+const GM_CHECKPOINTS: { level: number; score: number; time: number }[] = [
+  { level: 300, score: 12000, time: 255000 },
+  { level: 500, score: 40000, time: 450000 },
+  { level: MASTER_MAX_LEVEL, score: 126000, time: 810000 },
+];
+
+/**
+ * Look up the entry of a level-keyed curve in effect at a level
+ */
+function lookup<T>(curve: [number, T][], level: number): T {
+  let value = curve[0][1];
+  for (const [start, entry] of curve) {
+    if (level < start) break;
+    value = entry;
+  }
+  return value;
+}
+
+/**
+ * Get gravity at a Master level in 1/256 rows per frame
+ */
+export function getMasterGravity(level: number): number {
+  return lookup(MASTER_GRAVITY, level);
+}
+
+/**
+ * Get the delays of the section a Master level is in
+ */
+export function getMasterDelays(level: number): MasterDelays {
+  return lookup(MASTER_DELAYS, level);
+}
+
+/**
+ * Get the grade earned by a score
+ */
+export function getMasterGrade(score: number): string {
+  return lookup(MASTER_GRADES.map(({ grade, score: needed }): [number, string] => [needed, grade]), score);
+}
+
+/**
+ * Serializable Master progress
+ */
+export interface MasterState {
+  level: number;
+  combo: number;
+  sectionStart: number;
+  sectionTimes: number[];
+  gmEligible: boolean;
+}
+
+/**
+ * Level counter, scoring and grading for Master mode
+ *
+ * The level rises by one for each new piece and by the number of lines cleared,
+ * but stops at the end of a section (x99 and 998) until a line is cleared.
+ */
+export class MasterProgression {
+  private level = 0;
+  private combo = 1;
+  private sectionStart = 0;
+  private sectionTimes: number[] = [];
+  private gmEligible = true;
+
+  getLevel(): number {
+    return this.level;
+  }
+
+  getState(): MasterState {
+    return {
+      level: this.level,
+      combo: this.combo,
+      sectionStart: this.sectionStart,
+      sectionTimes: [...this.sectionTimes],
+      gmEligible: this.gmEligible,
+    };
+  }
+
+  setState(state: MasterState): void {
+    this.level = state.level;
+    this.combo = state.combo;
+    this.sectionStart = state.sectionStart;
+    this.sectionTimes = [...state.sectionTimes];
+    this.gmEligible = state.gmEligible;
+  }
+
+  /**
+   * Get the time taken by each completed section in milliseconds
+   */
+  getSectionTimes(): number[] {
+    return [...this.sectionTimes];
+  }
+
+  isComplete(): boolean {
+    return this.level >= MASTER_MAX_LEVEL;
+  }
+
+  /**
+   * Score a line clear with the TGM formula
+   * (ceil((level + lines) / 4) + drop) x lines x combo x bravo
+   * @param dropRows Rows the piece was soft or hard dropped
+   * @param bravo Whether the clear emptied the board
+   */
+  scoreClear(lines: number, dropRows: number, bravo: boolean): number {
+    this.combo += 2 * lines - 2;
+    const base = Math.ceil((this.level + lines) / 4) + dropRows;
+    return base * lines * this.combo * (bravo ? 4 : 1);
+  }
+
+  /**
+   * Advance the level after a piece locks and the next one enters
+   * @param time Elapsed play time, for section times and Grand Master checkpoints
+   * @returns Sections completed by this advance, numbered from 0
+   */
+  advance(lines: number, time: number, score: number): number[] {
+    if (lines === 0) {
+      this.combo = 1;
+    }
+
+    const previous = this.level;
+    this.level = Math.min(this.level + lines, MASTER_MAX_LEVEL);
+    const atStop = this.level % MASTER_SECTION_LEVELS === MASTER_SECTION_LEVELS - 1 || this.level === MASTER_MAX_LEVEL - 1;
+    if (!atStop && !this.isComplete()) {
+      this.level++;
+    }
+
+    for (const checkpoint of GM_CHECKPOINTS) {
+      if (previous < checkpoint.level && this.level >= checkpoint.level) {
+        this.gmEligible &&= score >= checkpoint.score && time <= checkpoint.time;
+      }
+    }
+
+    const sections: number[] = [];
+    const completed = this.isComplete() ? Math.ceil(this.level / MASTER_SECTION_LEVELS) : Math.floor(this.level / MASTER_SECTION_LEVELS);
+    while (this.sectionTimes.length < completed) {
+      sections.push(this.sectionTimes.length);
+      this.sectionTimes.push(time - this.sectionStart);
+      this.sectionStart = time;
+    }
+    return sections;
+  }
+
+  /**
+   * Get the grade for a score; Grand Master needs every checkpoint met and level 999
+   */
+  getGrade(score: number): string {
+    return this.isComplete() && this.gmEligible ? GRAND_MASTER : getMasterGrade(score);
+  }
+}
@@ -0,0 +1,136 @@
+import {
+  GameModeType,
+  LockResetMode,
+  COUNTDOWN_DURATION,
+  ULTRA_TIME_LIMIT,
+  DIG_GARBAGE_ROWS,
+} from '@/types/tetris';
+
+/**
+ * Garbage pushed up from below on a timer, independent of the player's clears
+ * Times in milliseconds
+ */
+export interface RisingGarbage {
+  readonly initialInterval: number;
+  /** Each row multiplies the interval by this factor */
+  readonly acceleration: number;
+  readonly minInterval: number;
+}
+
+/**
+ * Rules that set a game mode apart from plain Marathon play
+ */
+export interface GameMode {
+  readonly type: GameModeType;
+  readonly name: string;
+  /** "Ready" time before the first piece in milliseconds (0 = start at once) */
+  readonly countdown: number;
+  /** Lines that finish the game, or null for no line goal */
+  readonly lineGoal: number | null;
+  /** Lines between split times, or null for no splits */
+  readonly splitLines: number | null;
+  /** Play time in milliseconds before time is up, or null for no limit */
+  readonly timeLimit: number | null;
+  /** TGM-style level counter, speed and delay curves, scoring and grades */
+  readonly master: boolean;
+  /** Lock reset rule the mode enforces, or null for the player's choice */
+  readonly lockReset: LockResetMode | null;
+  /** Garbage rows on the board at the start; clearing them all finishes the game */
+  readonly garbageRows: number;
+  /** Timed garbage rising from below, or null for none */
+  readonly risingGarbage: RisingGarbage | null;
+}
+
+const GAME_MODES: Record<GameModeType, GameMode> = {
+  [GameModeType.MARATHON]: {
+    type: GameModeType.MARATHON,
+    name: 'Marathon',
+    countdown: 0,
+    lineGoal: 999,
+    splitLines: null,
+    timeLimit: null,
+    master: false,
+    lockReset: null,
+    garbageRows: 0,
+    risingGarbage: null,
+  },
+  [GameModeType.SPRINT]: {
+    type: GameModeType.SPRINT,
+    name: 'Sprint 40L',
+    countdown: COUNTDOWN_DURATION,
+    lineGoal: 40,
+    splitLines: 10,
+    timeLimit: null,
+    master: false,
+    lockReset: null,
+    garbageRows: 0,
+    risingGarbage: null,
+  },
+  [GameModeType.ULTRA]: {
+    type: GameModeType.ULTRA,
+    name: 'Ultra 2:00',
+    countdown: COUNTDOWN_DURATION,
+    lineGoal: null,
+    splitLines: null,
+    timeLimit: ULTRA_TIME_LIMIT,
+    master: false,
+    lockReset: null,
+    garbageRows: 0,
+    risingGarbage: null,
+  },
+  [GameModeType.MASTER]: {
+    type: GameModeType.MASTER,
+    name: 'Master',
+    countdown: COUNTDOWN_DURATION,
+    lineGoal: null,
+    splitLines: null,
+    timeLimit: null,
+    master: true,
+    lockReset: LockResetMode.STEP,
+    garbageRows: 0,
+    risingGarbage: null,
+  },
+  [GameModeType.DIG]: {
+    type: GameModeType.DIG,
+    name: 'Dig',
+    countdown: COUNTDOWN_DURATION,
+    lineGoal: null,
+    splitLines: null,
+    timeLimit: null,
+    master: false,
+    lockReset: null,
+    garbageRows: DIG_GARBAGE_ROWS,
+    risingGarbage: null,
+  },
+  [GameModeType.SURVIVAL]: {
+    type: GameModeType.SURVIVAL,
+    name: 'Survival',
+    countdown: COUNTDOWN_DURATION,
+    lineGoal: null,
+    splitLines: null,
+    timeLimit: null,
+    master: false,
+    lockReset: null,
+    garbageRows: 0,
+    risingGarbage: { initialInterval: 5000, acceleration: 0.95, minInterval: 1000 },
+  },
+  [GameModeType.VERSUS]: {
+    type: GameModeType.VERSUS,
+    name: 'Versus',
+    countdown: COUNTDOWN_DURATION,
+    lineGoal: null,
+    splitLines: null,
+    timeLimit: null,
+    master: false,
+    lockReset: null,
+    garbageRows: 0,
+    risingGarbage: null,
+  },
+};
+
+/**
+ * Get the rules of a game mode
+ */
+export function getGameMode(type: GameModeType): GameMode {
+  return GAME_MODES[type];
+}
@@ -1,4 +1,12 @@
-import { TetrominoType, RotationState, Position } from '@/types/tetris';
+import {
+  TetrominoType,
+  Cell,
+  RotationState,
+  TSpinType,
+  Position,
+  BOARD_WIDTH,
+  TOTAL_HEIGHT,
+} from '@/types/tetris';
 
 /**
  * Tetromino shapes according to SRS (Super Rotation System)
@@ -52,30 +60,41 @@ const TETROMINO_SHAPES: Record<TetrominoType, number[][][]> = {
 
 /**
  * SRS Wall Kick Data
- * Offsets to try when rotating, in order
+ * Offsets to try when rotating, in order (y grows downward, so upward kicks are negative)
  */
 const WALL_KICK_DATA: Record<string, Position[]> = {
   // J, L, S, T, Z pieces
-  '0->1': [{ x: -1, y: 0 }, { x: -1, y: 1 }, { x: 0, y: -2 }, { x: -1, y: -2 }],
-  '1->0': [{ x: 1, y: 0 }, { x: 1, y: -1 }, { x: 0, y: 2 }, { x: 1, y: 2 }],
-  '1->2': [{ x: 1, y: 0 }, { x: 1, y: -1 }, { x: 0, y: 2 }, { x: 1, y: 2 }],
-  '2->1': [{ x: -1, y: 0 }, { x: -1, y: 1 }, { x: 0, y: -2 }, { x: -1, y: -2 }],
-  '2->3': [{ x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: -2 }, { x: 1, y: -2 }],
-  '3->2': [{ x: -1, y: 0 }, { x: -1, y: -1 }, { x: 0, y: 2 }, { x: -1, y: 2 }],
-  '3->0': [{ x: -1, y: 0 }, { x: -1, y: -1 }, { x: 0, y: 2 }, { x: -1, y: 2 }],
-  '0->3': [{ x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: -2 }, { x: 1, y: -2 }],
+  '0->1': [{ x: -1, y: 0 }, { x: -1, y: -1 }, { x: 0, y: 2 }, { x: -1, y: 2 }],
+  '1->0': [{ x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: -2 }, { x: 1, y: -2 }],
+  '1->2': [{ x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: -2 }, { x: 1, y: -2 }],
+  '2->1': [{ x: -1, y: 0 }, { x: -1, y: -1 }, { x: 0, y: 2 }, { x: -1, y: 2 }],
+  '2->3': [{ x: 1, y: 0 }, { x: 1, y: -1 }, { x: 0, y: 2 }, { x: 1, y: 2 }],
+  '3->2': [{ x: -1, y: 0 }, { x: -1, y: 1 }, { x: 0, y: -2 }, { x: -1, y: -2 }],
+  '3->0': [{ x: -1, y: 0 }, { x: -1, y: 1 }, { x: 0, y: -2 }, { x: -1, y: -2 }],
+  '0->3': [{ x: 1, y: 0 }, { x: 1, y: -1 }, { x: 0, y: 2 }, { x: 1, y: 2 }],
 };
 
 // I piece has different wall kicks
 const I_WALL_KICK_DATA: Record<string, Position[]> = {
-  '0->1': [{ x: -2, y: 0 }, { x: 1, y: 0 }, { x: -2, y: -1 }, { x: 1, y: 2 }],
-  '1->0': [{ x: 2, y: 0 }, { x: -1, y: 0 }, { x: 2, y: 1 }, { x: -1, y: -2 }],
-  '1->2': [{ x: -1, y: 0 }, { x: 2, y: 0 }, { x: -1, y: 2 }, { x: 2, y: -1 }],
-  '2->1': [{ x: 1, y: 0 }, { x: -2, y: 0 }, { x: 1, y: -2 }, { x: -2, y: 1 }],
-  '2->3': [{ x: 2, y: 0 }, { x: -1, y: 0 }, { x: 2, y: 1 }, { x: -1, y: -2 }],
-  '3->2': [{ x: -2, y: 0 }, { x: 1, y: 0 }, { x: -2, y: -1 }, { x: 1, y: 2 }],
-  '3->0': [{ x: 1, y: 0 }, { x: -2, y: 0 }, { x: 1, y: -2 }, { x: -2, y: 1 }],
-  '0->3': [{ x: -1, y: 0 }, { x: 2, y: 0 }, { x: -1, y: 2 }, { x: 2, y: -1 }],
+  '0->1': [{ x: -2, y: 0 }, { x: 1, y: 0 }, { x: -2, y: 1 }, { x: 1, y: -2 }],
+  '1->0': [{ x: 2, y: 0 }, { x: -1, y: 0 }, { x: 2, y: -1 }, { x: -1, y: 2 }],
+  '1->2': [{ x: -1, y: 0 }, { x: 2, y: 0 }, { x: -1, y: -2 }, { x: 2, y: 1 }],
+  '2->1': [{ x: 1, y: 0 }, { x: -2, y: 0 }, { x: 1, y: 2 }, { x: -2, y: -1 }],
+  '2->3': [{ x: 2, y: 0 }, { x: -1, y: 0 }, { x: 2, y: -1 }, { x: -1, y: 2 }],
+  '3->2': [{ x: -2, y: 0 }, { x: 1, y: 0 }, { x: -2, y: 1 }, { x: 1, y: -2 }],
+  '3->0': [{ x: 1, y: 0 }, { x: -2, y: 0 }, { x: 1, y: 2 }, { x: -2, y: -1 }],
+  '0->3': [{ x: -1, y: 0 }, { x: 2, y: 0 }, { x: -1, y: -2 }, { x: 2, y: 1 }],
+};
+
+/**
+ * 180 degree kicks, shared by every piece except O
+ * The unkicked rotation is tried first, then these offsets in order
+ */
+const ROTATION_180_KICK_DATA: Record<string, Position[]> = {
+  '0->2': [{ x: 0, y: -1 }, { x: 1, y: -1 }, { x: -1, y: -1 }, { x: 1, y: 0 }, { x: -1, y: 0 }],
+  '2->0': [{ x: 0, y: 1 }, { x: -1, y: 1 }, { x: 1, y: 1 }, { x: -1, y: 0 }, { x: 1, y: 0 }],
+  '1->3': [{ x: 1, y: 0 }, { x: 1, y: -2 }, { x: 1, y: -1 }, { x: 0, y: -2 }, { x: 0, y: -1 }],
+  '3->1': [{ x: -1, y: 0 }, { x: -1, y: -2 }, { x: -1, y: -1 }, { x: 0, y: -2 }, { x: 0, y: -1 }],
 };
 
 /**
@@ -99,13 +118,17 @@ export class PieceData {
   ): Position[] {
     const key = `${fromRotation}->${toRotation}`;
     
-    if (type === TetrominoType.I) {
-      return I_WALL_KICK_DATA[key] || [];
-    }
-    
     if (type === TetrominoType.O) {
       return []; // O piece doesn't need wall kicks
     }
+
+    if (ROTATION_180_KICK_DATA[key]) {
+      return ROTATION_180_KICK_DATA[key];
+    }
+    
+    if (type === TetrominoType.I) {
+      return I_WALL_KICK_DATA[key] || [];
+    }
     
     return WALL_KICK_DATA[key] || [];
   }
@@ -124,6 +147,13 @@ export class PieceData {
     return ((rotation + 3) % 4) as RotationState;
   }
 
+  /**
+   * Get the rotation state after a 180 degree turn
+   */
+  static getRotation180(rotation: RotationState): RotationState {
+    return ((rotation + 2) % 4) as RotationState;
+  }
+
   /**
    * Get initial spawn position for a tetromino
    */
@@ -139,38 +169,63 @@ export class PieceData {
   }
 
   /**
-   * Check if position is valid T-Spin
-   * According to guideline, T-Spin requires 3 of 4 corners to be occupied
+   * Classify a locked T piece according to the guideline corner rules
+   * Works from the shape, so the front of the T follows its RotationState in any rotation system:
+   * - 3 of the 4 corners around the center must be occupied (walls and floor count)
+   * - both front corners (the side the T points to) make a full T-spin, otherwise a mini
+   * - a mini is upgraded to a full T-spin when the last rotation used the 1x2 TST kick
    */
-  static isTSpin(
-    board: (TetrominoType | null)[][],
+  static getTSpinType(
+    board: Cell[][],
+    shape: number[][],
     position: Position,
-    _rotation: RotationState,
-    lastWasRotation: boolean
-  ): boolean {
-    if (!lastWasRotation) return false;
-
-    // Check the 4 corners of the T piece's 3x3 bounding box
-    const corners = [
-      { x: position.x, y: position.y },
-      { x: position.x + 2, y: position.y },
-      { x: position.x, y: position.y + 2 },
-      { x: position.x + 2, y: position.y + 2 },
-    ];
-
-    let occupiedCorners = 0;
-    for (const corner of corners) {
-      if (
-        corner.x < 0 ||
-        corner.x >= 10 ||
-        corner.y < 0 ||
-        corner.y >= 22 ||
-        board[corner.y][corner.x] !== null
-      ) {
-        occupiedCorners++;
+    lastWasRotation: boolean,
+    usedTstKick: boolean
+  ): TSpinType {
+    if (!lastWasRotation) return TSpinType.NONE;
+
+    const pivot = PieceData.findTPivot(shape);
+    if (!pivot) return TSpinType.NONE;
+
+    let frontCorners = 0;
+    let backCorners = 0;
+    for (const [dx, dy] of [[-1, -1], [1, -1], [-1, 1], [1, 1]]) {
+      const x = position.x + pivot.x + dx;
+      const y = position.y + pivot.y + dy;
+      const occupied =
+        x < 0 || x >= BOARD_WIDTH || y >= TOTAL_HEIGHT || (y >= 0 && board[y][x] !== null);
+      if (!occupied) continue;
+
+      if (dx * pivot.facing.x + dy * pivot.facing.y > 0) {
+        frontCorners++;
+      } else {
+        backCorners++;
+      }
+    }
+
+    if (frontCorners + backCorners < 3) return TSpinType.NONE;
+    return frontCorners === 2 || usedTstKick ? TSpinType.FULL : TSpinType.MINI;
+  }
+
+  /**
+   * Find the center block of a T shape and the direction its nub points
+   */
+  private static findTPivot(shape: number[][]): { x: number; y: number; facing: Position } | null {
+    const filled = (x: number, y: number) => shape[y]?.[x] === 1;
+    const directions = [{ x: 0, y: -1 }, { x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }];
+
+    for (let y = 0; y < shape.length; y++) {
+      for (let x = 0; x < shape[y].length; x++) {
+        if (!filled(x, y)) continue;
+
+        const neighbours = directions.filter(d => filled(x + d.x, y + d.y));
+        if (neighbours.length !== 3) continue;
+
+        const facing = neighbours.find(d => !filled(x - d.x, y - d.y))!;
+        return { x, y, facing };
       }
     }
 
-    return occupiedCorners >= 3;
+    return null;
   }
-}
\ No newline at end of file
+}
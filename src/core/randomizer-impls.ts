@@ -0,0 +1,133 @@
+import { TetrominoType, RandomizerType } from '@/types/tetris';
+import { Randomizer, RandomizerMemory, QueuedRandomizer, PIECE_ORDER } from './randomizer';
+import { BagRandomizer } from './bag';
+import { GameError } from '@/utils/error-handler';
+
+/**
+ * Memoryless generator: every piece is an independent uniform draw
+ */
+export class PureRandomizer extends QueuedRandomizer {
+  protected generate(): TetrominoType[] {
+    return [PIECE_ORDER[this.rng.nextInt(PIECE_ORDER.length)]];
+  }
+}
+
+/**
+ * NES-style generator
+ * Rolls an 8-sided die; a repeat of the last piece or the 8th face triggers one 7-sided reroll
+ */
+export class NesRandomizer extends QueuedRandomizer {
+  private last: TetrominoType | null = null;
+
+  protected generate(): TetrominoType[] {
+    let roll = this.rng.nextInt(PIECE_ORDER.length + 1);
+    if (roll === PIECE_ORDER.length || PIECE_ORDER[roll] === this.last) {
+      roll = this.rng.nextInt(PIECE_ORDER.length);
+    }
+
+    this.last = PIECE_ORDER[roll];
+    return [this.last];
+  }
+
+  protected onReset(): void {
+    this.last = null;
+  }
+
+  protected getMemory(): RandomizerMemory {
+    return { last: this.last };
+  }
+
+  protected setMemory(memory: RandomizerMemory): void {
+    this.last = memory.last ?? null;
+  }
+}
+
+const TGM_ROLLS = 6;
+const TGM_INITIAL_HISTORY = [TetrominoType.Z, TetrominoType.S, TetrominoType.S, TetrominoType.Z];
+const TGM_FIRST_PIECES = [TetrominoType.I, TetrominoType.J, TetrominoType.L, TetrominoType.T];
+
+/**
+ * TGM-style history generator
+ * Rolls up to TGM_ROLLS times for a piece not among the last 4; the final roll is kept regardless
+ */
+export class TgmRandomizer extends QueuedRandomizer {
+  private history: TetrominoType[] = [...TGM_INITIAL_HISTORY];
+  private first = true;
+
+  protected generate(): TetrominoType[] {
+    let piece: TetrominoType;
+
+    if (this.first) {
+      // The first piece is never S, Z or O
+      piece = TGM_FIRST_PIECES[this.rng.nextInt(TGM_FIRST_PIECES.length)];
+      this.first = false;
+    } else {
+      piece = PIECE_ORDER[this.rng.nextInt(PIECE_ORDER.length)];
+      for (let roll = 1; roll < TGM_ROLLS && this.history.includes(piece); roll++) {
+        piece = PIECE_ORDER[this.rng.nextInt(PIECE_ORDER.length)];
+      }
+    }
+
+    this.history.shift();
+    this.history.push(piece);
+    return [piece];
+  }
+
+  protected onReset(): void {
+    this.history = [...TGM_INITIAL_HISTORY];
+    this.first = true;
+  }
+
+  protected getMemory(): RandomizerMemory {
+    return { history: [...this.history], first: this.first };
+  }
+
+  protected setMemory(memory: RandomizerMemory): void {
+    this.history = [...(memory.history ?? TGM_INITIAL_HISTORY)];
+    this.first = memory.first ?? true;
+  }
+}
+
+/**
+ * Plays back a user-supplied sequence, looping when it runs out
+ */
+export class FixedSequenceRandomizer extends QueuedRandomizer {
+  private sequence: TetrominoType[];
+
+  constructor(sequence: TetrominoType[]) {
+    super(0);
+    if (sequence.length === 0) {
+      throw new GameError('Fixed piece sequence must not be empty', 'INVALID_SEQUENCE');
+    }
+    this.sequence = [...sequence];
+  }
+
+  protected generate(): TetrominoType[] {
+    return [...this.sequence];
+  }
+}
+
+/**
+ * Create a randomizer for the given strategy
+ * @param sequence Pieces for RandomizerType.FIXED
+ */
+export function createRandomizer(
+  type: RandomizerType,
+  seed: number,
+  sequence: TetrominoType[] = []
+): Randomizer {
+  switch (type) {
+    case RandomizerType.BAG_7:
+      return new BagRandomizer(seed);
+    case RandomizerType.BAG_14:
+      return new BagRandomizer(seed, 2);
+    case RandomizerType.RANDOM:
+      return new PureRandomizer(seed);
+    case RandomizerType.NES:
+      return new NesRandomizer(seed);
+    case RandomizerType.TGM:
+      return new TgmRandomizer(seed);
+    case RandomizerType.FIXED:
+      return new FixedSequenceRandomizer(sequence);
+  }
+}
@@ -0,0 +1,176 @@
+import { TetrominoType } from '@/types/tetris';
+
+/**
+ * Pieces a strategy remembers between draws
+ */
+export interface RandomizerMemory {
+  /** Last piece drawn (NES) */
+  last?: TetrominoType | null;
+  /** Recent pieces (TGM) */
+  history?: TetrominoType[];
+  /** Whether the first piece is still to come (TGM) */
+  first?: boolean;
+}
+
+/**
+ * Serializable randomizer state, enough to continue the exact same sequence
+ */
+export interface RandomizerState {
+  /** Internal state of the seeded generator */
+  rng: number;
+  /** Pieces generated but not dealt yet */
+  queue: TetrominoType[];
+  memory: RandomizerMemory;
+}
+
+/**
+ * Piece generator used by the game
+ * preview() must always agree with the pieces later returned by next()
+ */
+export interface Randomizer {
+  next(): TetrominoType;
+  preview(count: number): TetrominoType[];
+  reset(seed?: number): void;
+  getState(): RandomizerState;
+  setState(state: RandomizerState): void;
+}
+
+/**
+ * All tetromino types in a fixed order used by the generators
+ */
+export const PIECE_ORDER: TetrominoType[] = [
+  TetrominoType.I,
+  TetrominoType.O,
+  TetrominoType.T,
+  TetrominoType.S,
+  TetrominoType.Z,
+  TetrominoType.J,
+  TetrominoType.L,
+];
+
+const LCG_MODULUS = 2147483648;
+
+/**
+ * Seeded pseudorandom number generator
+ * Using Linear Congruential Generator for reproducibility
+ */
+export class SeededRandom {
+  private state = 0;
+
+  constructor(seed: number) {
+    this.setSeed(seed);
+  }
+
+  /**
+   * Reseed the generator
+   */
+  setSeed(seed: number): void {
+    this.state = ((Math.floor(seed) % LCG_MODULUS) + LCG_MODULUS) % LCG_MODULUS;
+  }
+
+  /**
+   * Get the internal state, to continue the sequence later with setState()
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state;
+  }
+
+  /**
+   * Get a float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state * 1664525 + 1013904223) % LCG_MODULUS;
+    return this.state / LCG_MODULUS;
+  }
+
+  /**
+   * Get an integer in [0, max)
+   */
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+}
+
+/**
+ * Base class for randomizers that generate pieces ahead into a queue
+ * The queue is the single source of truth, so previews never disturb the sequence
+ */
+export abstract class QueuedRandomizer implements Randomizer {
+  protected rng: SeededRandom;
+  private queue: TetrominoType[] = [];
+
+  constructor(seed?: number) {
+    this.rng = new SeededRandom(seed ?? Date.now());
+  }
+
+  /**
+   * Get the next piece
+   */
+  next(): TetrominoType {
+    this.fill(1);
+    return this.queue.shift()!;
+  }
+
+  /**
+   * Preview upcoming pieces without removing them
+   * @param count Number of pieces to preview
+   */
+  preview(count: number): TetrominoType[] {
+    this.fill(count);
+    return this.queue.slice(0, count);
+  }
+
+  /**
+   * Reset the randomizer with a new seed
+   */
+  reset(seed?: number): void {
+    this.rng.setSeed(seed ?? Date.now());
+    this.queue = [];
+    this.onReset();
+  }
+
+  getState(): RandomizerState {
+    return { rng: this.rng.getState(), queue: [...this.queue], memory: this.getMemory() };
+  }
+
+  setState(state: RandomizerState): void {
+    this.rng.setState(state.rng);
+    this.queue = [...state.queue];
+    this.setMemory(state.memory);
+  }
+
+  /**
+   * Generate one or more pieces to append to the queue
+   */
+  protected abstract generate(): TetrominoType[];
+
+  /**
+   * Clear strategy-specific state on reset
+   */
+  protected onReset(): void {}
+
+  /**
+   * Get strategy-specific state for saving
+   */
+  protected getMemory(): RandomizerMemory {
+    return {};
+  }
+
+  /**
+   * Restore strategy-specific state saved by getMemory()
+   */
+  protected setMemory(_memory: RandomizerMemory): void {}
+
+  /**
+   * Generate until the queue holds at least count pieces
+   */
+  private fill(count: number): void {
+    while (this.queue.length < count) {
+      this.queue.push(...this.generate());
+    }
+  }
+}
@@ -0,0 +1,261 @@
+import { GameState } from '@/types/tetris';
+import { Game, GameEvent, GameOptions, InputAction } from './game';
+import { FixedTimestep } from './timing';
+import { GameError } from '@/utils/error-handler';
+
+/**
+ * Current replay format version
+ */
+export const REPLAY_VERSION = 5;
+
+/**
+ * Oldest replay version that can still be read
+ * Version 1 stamped inputs with elapsed time; since version 2 the format only gained optional fields
+ */
+export const MIN_REPLAY_VERSION = 2;
+
+/**
+ * A single recorded input, stamped with the simulation frame it was applied on
+ */
+export interface ReplayInput {
+  frame: number;
+  action: InputAction;
+  pressed: boolean;
+}
+
+/**
+ * Serializable replay of one game
+ */
+export interface Replay {
+  version: number;
+  seed: number;
+  options: GameOptions;
+  recordedAt: string;
+  frames: number;
+  inputs: ReplayInput[];
+  /** Placements taken back during the game; only practice games (options.practice) can have any */
+  undos: number;
+}
+
+/**
+ * Records every input of a game from its start, stamped by simulation frame
+ */
+export class ReplayRecorder {
+  private game: Game;
+  private seed = 0;
+  private options: GameOptions = {};
+  private recordedAt = new Date().toISOString();
+  private inputs: ReplayInput[] = [];
+
+  private onStart = (): void => {
+    this.seed = this.game.getSeed();
+    // Options may change mid-game (e.g. handling) but only apply from the next start
+    const { seed: _seed, ...options } = this.game.getOptions();
+    this.options = options;
+    this.recordedAt = new Date().toISOString();
+    this.inputs = [];
+  };
+
+  private onInput = (event: GameEvent): void => {
+    this.inputs.push({
+      frame: this.game.getFrame(),
+      action: event.data.action,
+      pressed: event.data.pressed,
+    });
+  };
+
+  constructor(game: Game) {
+    this.game = game;
+    this.game.on('game_start', this.onStart);
+    this.game.on('input', this.onInput);
+  }
+
+  /**
+   * Get the replay recorded since the last game start
+   */
+  getReplay(): Replay {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      options: { ...this.options },
+      recordedAt: this.recordedAt,
+      frames: this.game.getFrame(),
+      inputs: [...this.inputs],
+      undos: this.game.getStats().undos,
+    };
+  }
+
+  /**
+   * Carry on recording a game restored from a snapshot, from the replay saved alongside it
+   * Keys still down in the replay are released, and a game saved mid-play is paused,
+   * to match how the restored game comes back
+   */
+  resume(replay: Replay): void {
+    this.seed = replay.seed;
+    this.options = { ...replay.options };
+    this.recordedAt = replay.recordedAt;
+    this.inputs = [...replay.inputs];
+
+    const held = new Set<InputAction>();
+    let paused = false;
+    for (const input of replay.inputs) {
+      if (input.action === InputAction.PAUSE) {
+        paused = input.pressed ? !paused : paused;
+      } else if (input.pressed) {
+        held.add(input.action);
+      } else {
+        held.delete(input.action);
+      }
+    }
+
+    // Releases go first; a paused game ignores them
+    const frame = this.game.getFrame();
+    for (const action of held) {
+      this.inputs.push({ frame, action, pressed: false });
+    }
+    if (this.game.getState() === GameState.PAUSED && !paused) {
+      this.inputs.push({ frame, action: InputAction.PAUSE, pressed: true });
+    }
+  }
+
+  /**
+   * Stop recording
+   */
+  destroy(): void {
+    this.game.off('game_start', this.onStart);
+    this.game.off('input', this.onInput);
+  }
+}
+
+/**
+ * Re-drives a fresh game from a recorded replay, frame by frame
+ */
+export class ReplayPlayer {
+  private replay: Replay;
+  private game: Game;
+  private clock = new FixedTimestep();
+  private cursor = 0;
+
+  /**
+   * @param overrides Options that do not change the simulation, e.g. turning sound off
+   */
+  constructor(replay: Replay, overrides: Pick<GameOptions, 'sound'> = {}) {
+    this.replay = replay;
+    this.game = new Game({ ...replay.options, ...overrides, seed: replay.seed });
+  }
+
+  /**
+   * Get the game being driven by this replay
+   */
+  getGame(): Game {
+    return this.game;
+  }
+
+  /**
+   * Start playback from the beginning
+   */
+  start(): void {
+    this.cursor = 0;
+    this.clock.reset();
+    this.game.start();
+  }
+
+  /**
+   * Advance playback in real time
+   * @returns true while the replay has frames or inputs left
+   */
+  advance(deltaTime: number): boolean {
+    this.clock.advance(deltaTime, () => this.stepFrame());
+    return !this.isFinished();
+  }
+
+  /**
+   * Play all remaining frames immediately
+   */
+  playToEnd(): void {
+    while (this.stepFrame()) {
+      // Keep stepping until the recording is exhausted
+    }
+  }
+
+  /**
+   * Check if the whole replay has been applied
+   */
+  isFinished(): boolean {
+    return this.cursor >= this.replay.inputs.length && this.game.getFrame() >= this.replay.frames;
+  }
+
+  /**
+   * Apply the inputs recorded for the current frame, then advance one frame
+   * @returns false once no further frame can be simulated
+   */
+  private stepFrame(): boolean {
+    const frame = this.game.getFrame();
+    const inputs = this.replay.inputs;
+    while (this.cursor < inputs.length && inputs[this.cursor].frame <= frame) {
+      const input = inputs[this.cursor++];
+      this.game.handleInput(input.action, input.pressed);
+    }
+
+    if (frame >= this.replay.frames) return false;
+
+    this.game.step();
+    return this.game.getFrame() > frame;
+  }
+}
+
+/**
+ * Serialize a replay to JSON
+ */
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse and validate a replay from JSON
+ */
+export function parseReplay(json: string): Replay {
+  let data: Partial<Replay>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new GameError('Replay is not valid JSON', 'REPLAY_INVALID');
+  }
+
+  if (!data || typeof data !== 'object') {
+    throw new GameError('Replay is not an object', 'REPLAY_INVALID');
+  }
+
+  if (typeof data.version !== 'number' || data.version < MIN_REPLAY_VERSION || data.version > REPLAY_VERSION) {
+    throw new GameError(`Unsupported replay version: ${data.version}`, 'REPLAY_VERSION_UNSUPPORTED');
+  }
+
+  if (data.options !== undefined && (typeof data.options !== 'object' || data.options === null)) {
+    throw new GameError('Replay options must be an object', 'REPLAY_INVALID');
+  }
+
+  if (typeof data.seed !== 'number' || typeof data.frames !== 'number' || !Array.isArray(data.inputs)) {
+    throw new GameError('Replay is missing seed, frames or inputs', 'REPLAY_INVALID');
+  }
+
+  const actions = Object.values(InputAction) as string[];
+  for (const input of data.inputs) {
+    const valid =
+      typeof input.frame === 'number' &&
+      actions.includes(input.action) &&
+      typeof input.pressed === 'boolean';
+    if (!valid) {
+      throw new GameError('Replay contains a malformed input', 'REPLAY_INVALID');
+    }
+  }
+
+  return {
+    version: data.version,
+    seed: data.seed,
+    options: data.options ?? {},
+    recordedAt: data.recordedAt ?? '',
+    frames: data.frames,
+    inputs: data.inputs,
+    undos: data.undos ?? 0,
+  };
+}
@@ -0,0 +1,258 @@
+import {
+  TetrominoType,
+  RotationState,
+  RotationSystemType,
+  Position,
+  Piece,
+  BOARD_WIDTH,
+  TOTAL_HEIGHT,
+} from '@/types/tetris';
+import type { Board } from './board';
+import { PieceData } from './piece';
+
+/**
+ * Rotation system: piece shapes, spawn positions and kick rules
+ */
+export interface RotationSystem {
+  readonly type: RotationSystemType;
+
+  /**
+   * Get the shape matrix for a tetromino
+   */
+  getShape(type: TetrominoType, rotation: RotationState): number[][];
+
+  /**
+   * Get initial spawn position for a tetromino
+   */
+  getSpawnPosition(type: TetrominoType): Position;
+
+  /**
+   * Get kick offsets to try, in order, after the unkicked rotation fails
+   */
+  getKicks(type: TetrominoType, from: RotationState, to: RotationState): Position[];
+
+  /**
+   * Check whether kicks may be attempted once the unkicked rotation has failed
+   */
+  allowsKicks(board: Board, piece: Piece, to: RotationState): boolean;
+}
+
+/**
+ * Guideline Super Rotation System
+ */
+export class SrsRotationSystem implements RotationSystem {
+  readonly type: RotationSystemType = RotationSystemType.SRS;
+
+  getShape(type: TetrominoType, rotation: RotationState): number[][] {
+    return PieceData.getShape(type, rotation);
+  }
+
+  getSpawnPosition(type: TetrominoType): Position {
+    return PieceData.getSpawnPosition(type);
+  }
+
+  getKicks(type: TetrominoType, from: RotationState, to: RotationState): Position[] {
+    return PieceData.getWallKickOffsets(type, from, to);
+  }
+
+  allowsKicks(): boolean {
+    return true;
+  }
+}
+
+/**
+ * SRS+ I piece kicks, mirrored so left and right rotations behave symmetrically
+ */
+const SRS_PLUS_I_KICKS: Record<string, Position[]> = {
+  '0->1': [{ x: 1, y: 0 }, { x: -2, y: 0 }, { x: -2, y: 1 }, { x: 1, y: -2 }],
+  '1->0': [{ x: -1, y: 0 }, { x: 2, y: 0 }, { x: -1, y: 2 }, { x: 2, y: -1 }],
+  '1->2': [{ x: -1, y: 0 }, { x: 2, y: 0 }, { x: -1, y: -2 }, { x: 2, y: 1 }],
+  '2->1': [{ x: -2, y: 0 }, { x: 1, y: 0 }, { x: -2, y: -1 }, { x: 1, y: 2 }],
+  '2->3': [{ x: 2, y: 0 }, { x: -1, y: 0 }, { x: 2, y: -1 }, { x: -1, y: 2 }],
+  '3->2': [{ x: 1, y: 0 }, { x: -2, y: 0 }, { x: 1, y: 2 }, { x: -2, y: -1 }],
+  '3->0': [{ x: 1, y: 0 }, { x: -2, y: 0 }, { x: 1, y: -2 }, { x: -2, y: 1 }],
+  '0->3': [{ x: -1, y: 0 }, { x: 2, y: 0 }, { x: 2, y: 1 }, { x: -1, y: -2 }],
+};
+
+/**
+ * SRS+ (as popularised by modern online games): SRS with symmetric I kicks
+ * 180 kicks come from the shared table in the piece data
+ */
+export class SrsPlusRotationSystem extends SrsRotationSystem {
+  readonly type: RotationSystemType = RotationSystemType.SRS_PLUS;
+
+  getKicks(type: TetrominoType, from: RotationState, to: RotationState): Position[] {
+    const key = `${from}->${to}`;
+    if (type === TetrominoType.I && SRS_PLUS_I_KICKS[key]) {
+      return SRS_PLUS_I_KICKS[key];
+    }
+
+    return super.getKicks(type, from, to);
+  }
+}
+
+/**
+ * Arika (TGM) shapes: pieces rest on the bottom of their box and T, J, L spawn flat side up
+ */
+const ARS_SHAPES: Record<TetrominoType, number[][][]> = {
+  [TetrominoType.I]: [
+    [[0, 0, 0, 0], [1, 1, 1, 1], [0, 0, 0, 0], [0, 0, 0, 0]],
+    [[0, 0, 1, 0], [0, 0, 1, 0], [0, 0, 1, 0], [0, 0, 1, 0]],
+    [[0, 0, 0, 0], [1, 1, 1, 1], [0, 0, 0, 0], [0, 0, 0, 0]],
+    [[0, 0, 1, 0], [0, 0, 1, 0], [0, 0, 1, 0], [0, 0, 1, 0]],
+  ],
+  [TetrominoType.O]: [
+    [[0, 1, 1, 0], [0, 1, 1, 0], [0, 0, 0, 0], [0, 0, 0, 0]],
+    [[0, 1, 1, 0], [0, 1, 1, 0], [0, 0, 0, 0], [0, 0, 0, 0]],
+    [[0, 1, 1, 0], [0, 1, 1, 0], [0, 0, 0, 0], [0, 0, 0, 0]],
+    [[0, 1, 1, 0], [0, 1, 1, 0], [0, 0, 0, 0], [0, 0, 0, 0]],
+  ],
+  [TetrominoType.T]: [
+    [[0, 0, 0], [1, 1, 1], [0, 1, 0]],
+    [[0, 1, 0], [1, 1, 0], [0, 1, 0]],
+    [[0, 0, 0], [0, 1, 0], [1, 1, 1]],
+    [[0, 1, 0], [0, 1, 1], [0, 1, 0]],
+  ],
+  [TetrominoType.S]: [
+    [[0, 0, 0], [0, 1, 1], [1, 1, 0]],
+    [[1, 0, 0], [1, 1, 0], [0, 1, 0]],
+    [[0, 0, 0], [0, 1, 1], [1, 1, 0]],
+    [[1, 0, 0], [1, 1, 0], [0, 1, 0]],
+  ],
+  [TetrominoType.Z]: [
+    [[0, 0, 0], [1, 1, 0], [0, 1, 1]],
+    [[0, 0, 1], [0, 1, 1], [0, 1, 0]],
+    [[0, 0, 0], [1, 1, 0], [0, 1, 1]],
+    [[0, 0, 1], [0, 1, 1], [0, 1, 0]],
+  ],
+  [TetrominoType.J]: [
+    [[0, 0, 0], [1, 1, 1], [0, 0, 1]],
+    [[0, 1, 0], [0, 1, 0], [1, 1, 0]],
+    [[0, 0, 0], [1, 0, 0], [1, 1, 1]],
+    [[0, 1, 1], [0, 1, 0], [0, 1, 0]],
+  ],
+  [TetrominoType.L]: [
+    [[0, 0, 0], [1, 1, 1], [1, 0, 0]],
+    [[1, 1, 0], [0, 1, 0], [0, 1, 0]],
+    [[0, 0, 0], [0, 0, 1], [1, 1, 1]],
+    [[0, 1, 0], [0, 1, 0], [0, 1, 1]],
+  ],
+};
+
+const ARS_KICKS: Position[] = [{ x: 1, y: 0 }, { x: -1, y: 0 }];
+
+/**
+ * Arika Rotation System (TGM)
+ * Kicks one cell right, then left, except for I and when the center-column rule blocks them
+ */
+export class ArsRotationSystem implements RotationSystem {
+  readonly type: RotationSystemType = RotationSystemType.ARS;
+
+  getShape(type: TetrominoType, rotation: RotationState): number[][] {
+    return ARS_SHAPES[type][rotation];
+  }
+
+  getSpawnPosition(type: TetrominoType): Position {
+    const width = this.getShape(type, RotationState.SPAWN)[0].length;
+    return {
+      x: Math.floor((BOARD_WIDTH - width) / 2),
+      y: type === TetrominoType.O ? 1 : 0, // Pieces rest one row down in their box
+    };
+  }
+
+  getKicks(type: TetrominoType): Position[] {
+    return type === TetrominoType.I || type === TetrominoType.O ? [] : ARS_KICKS;
+  }
+
+  /**
+   * Center-column rule: J, L and T may not kick when the first blocked cell
+   * (scanning the 3x3 box row by row) lies in the middle column
+   */
+  allowsKicks(board: Board, piece: Piece, to: RotationState): boolean {
+    if (
+      piece.type !== TetrominoType.J &&
+      piece.type !== TetrominoType.L &&
+      piece.type !== TetrominoType.T
+    ) {
+      return true;
+    }
+
+    const shape = this.getShape(piece.type, to);
+    const grid = board.getGrid();
+    for (let row = 0; row < shape.length; row++) {
+      for (let col = 0; col < shape[row].length; col++) {
+        if (shape[row][col] === 0) continue;
+
+        const x = piece.position.x + col;
+        const y = piece.position.y + row;
+        const blocked =
+          x < 0 || x >= BOARD_WIDTH || y >= TOTAL_HEIGHT || (y >= 0 && grid[y][x] !== null);
+        if (blocked) {
+          return col !== 1;
+        }
+      }
+    }
+
+    return true;
+  }
+}
+
+/**
+ * Nintendo (NES) right-handed shapes: S, Z and I lean right, no kicks at all
+ */
+const NES_SHAPES: Record<TetrominoType, number[][][]> = {
+  ...ARS_SHAPES,
+  [TetrominoType.I]: [
+    [[0, 0, 0, 0], [0, 0, 0, 0], [1, 1, 1, 1], [0, 0, 0, 0]],
+    [[0, 0, 1, 0], [0, 0, 1, 0], [0, 0, 1, 0], [0, 0, 1, 0]],
+    [[0, 0, 0, 0], [0, 0, 0, 0], [1, 1, 1, 1], [0, 0, 0, 0]],
+    [[0, 0, 1, 0], [0, 0, 1, 0], [0, 0, 1, 0], [0, 0, 1, 0]],
+  ],
+  [TetrominoType.S]: [
+    [[0, 0, 0], [0, 1, 1], [1, 1, 0]],
+    [[0, 1, 0], [0, 1, 1], [0, 0, 1]],
+    [[0, 0, 0], [0, 1, 1], [1, 1, 0]],
+    [[0, 1, 0], [0, 1, 1], [0, 0, 1]],
+  ],
+};
+
+/**
+ * Classic NES rotation: fixed pivots and no wall kicks
+ */
+export class NesRotationSystem implements RotationSystem {
+  readonly type: RotationSystemType = RotationSystemType.NES;
+
+  getShape(type: TetrominoType, rotation: RotationState): number[][] {
+    return NES_SHAPES[type][rotation];
+  }
+
+  getSpawnPosition(type: TetrominoType): Position {
+    const width = this.getShape(type, RotationState.SPAWN)[0].length;
+    return {
+      x: Math.floor((BOARD_WIDTH - width) / 2),
+      y: type === TetrominoType.I ? -1 : type === TetrominoType.O ? 1 : 0,
+    };
+  }
+
+  getKicks(): Position[] {
+    return [];
+  }
+
+  allowsKicks(): boolean {
+    return false;
+  }
+}
+
+const ROTATION_SYSTEMS: Record<RotationSystemType, RotationSystem> = {
+  [RotationSystemType.SRS]: new SrsRotationSystem(),
+  [RotationSystemType.SRS_PLUS]: new SrsPlusRotationSystem(),
+  [RotationSystemType.ARS]: new ArsRotationSystem(),
+  [RotationSystemType.NES]: new NesRotationSystem(),
+};
+
+/**
+ * Get the shared (stateless) instance of a rotation system
+ */
+export function getRotationSystem(type: RotationSystemType): RotationSystem {
+  return ROTATION_SYSTEMS[type];
+}
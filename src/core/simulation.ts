@@ -0,0 +1,116 @@
+import { GameState, GameOverReason, GameModeType, SIMULATION_FPS, BOT_INPUT_DELAY, BOT_DEPTH } from '@/types/tetris';
+import { Game, GameOptions } from './game';
+import { Bot, BotOptions } from './ai';
+import { Replay, ReplayPlayer } from './replay';
+import { getPerformanceStats } from './stats';
+
+/**
+ * Frames a bot game may run before it is cut off (one hour of play)
+ */
+export const DEFAULT_MAX_FRAMES = SIMULATION_FPS * 60 * 60;
+
+/**
+ * How a simulated game ended
+ */
+export type SimulationEnd = 'game_over' | 'completed' | 'time_up' | 'frame_limit' | 'replay_end';
+
+/**
+ * JSON-friendly result of one simulated game
+ */
+export interface SimulationSummary {
+  seed: number;
+  mode: GameModeType;
+  end: SimulationEnd;
+  /** Death cause when the game was lost */
+  gameOverReason: GameOverReason | null;
+  score: number;
+  lines: number;
+  level: number;
+  pieces: number;
+  attack: number;
+  frames: number;
+  /** Play time in milliseconds at SIMULATION_FPS */
+  time: number;
+  /** Pieces per second of simulated play time */
+  pps: number;
+  /** Placements taken back in practice play */
+  undos: number;
+}
+
+/**
+ * Bot game settings
+ */
+export interface BotSimulationOptions {
+  seed: number;
+  game?: GameOptions;
+  /** Defaults to BOT_INPUT_DELAY between inputs and BOT_DEPTH look-ahead */
+  bot?: BotOptions;
+  /** Defaults to DEFAULT_MAX_FRAMES */
+  maxFrames?: number;
+}
+
+const END_STATES: Partial<Record<GameState, SimulationEnd>> = {
+  [GameState.GAME_OVER]: 'game_over',
+  [GameState.COMPLETED]: 'completed',
+  [GameState.TIME_UP]: 'time_up',
+};
+
+/**
+ * Summarize a game in its current state
+ */
+export function summarizeGame(game: Game, end: SimulationEnd): SimulationSummary {
+  const stats = game.getStats();
+  const time = game.getElapsedTime();
+  return {
+    seed: game.getSeed(),
+    mode: game.getMode().type,
+    end,
+    gameOverReason: game.getGameOverReason(),
+    score: stats.score,
+    lines: stats.lines,
+    level: stats.level,
+    pieces: stats.pieces,
+    attack: stats.attack,
+    frames: game.getFrame(),
+    time,
+    pps: getPerformanceStats(stats, time).pps,
+    undos: stats.undos,
+  };
+}
+
+/**
+ * Play one game with the bot as fast as possible, without sound or rendering
+ *
+ * The bot keeps its in-game input pace so pps stays comparable to live play.
+ */
+export function runBotGame(options: BotSimulationOptions): SimulationSummary {
+  const game = new Game({ ...options.game, seed: options.seed, sound: false });
+  const bot = new Bot(game, {
+    ...options.bot,
+    inputDelay: options.bot?.inputDelay ?? BOT_INPUT_DELAY,
+    depth: options.bot?.depth ?? BOT_DEPTH,
+  });
+  const maxFrames = options.maxFrames ?? DEFAULT_MAX_FRAMES;
+  const frameTime = 1000 / SIMULATION_FPS;
+
+  game.start();
+  while (game.getState() === GameState.PLAYING && game.getFrame() < maxFrames) {
+    bot.update(frameTime);
+    if (game.getState() !== GameState.PLAYING) break;
+    game.step();
+  }
+
+  return summarizeGame(game, END_STATES[game.getState()] ?? 'frame_limit');
+}
+
+/**
+ * Re-run a replay to its end and summarize the result
+ */
+export function runReplay(replay: Replay): SimulationSummary {
+  const player = new ReplayPlayer(replay, { sound: false });
+  player.start();
+  player.playToEnd();
+
+  const game = player.getGame();
+  return summarizeGame(game, END_STATES[game.getState()] ?? 'replay_end');
+}
@@ -0,0 +1,113 @@
+import {
+  Cell,
+  GameState,
+  GameStats,
+  GameOverReason,
+  GameModeType,
+  HandlingSettings,
+  Piece,
+  Position,
+  TetrominoType,
+  TOTAL_HEIGHT,
+} from '@/types/tetris';
+import type { GameOptions, IncomingGarbage } from './game';
+import { RandomizerState } from './randomizer';
+import { MasterState } from './master';
+import { GameError } from '@/utils/error-handler';
+
+/**
+ * Current snapshot format version
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Serializable state of a game in progress, enough to carry on exactly where it left off
+ * Held keys are not saved; a restored game starts with every key released
+ */
+export interface GameSnapshot {
+  version: number;
+  savedAt: string;
+  seed: number;
+  options: GameOptions;
+  mode: GameModeType;
+  handling: HandlingSettings;
+  state: GameState;
+  gameOverReason: GameOverReason | null;
+  stats: GameStats;
+  grid: Cell[][];
+  currentPiece: Piece | null;
+  holdPiece: TetrominoType | null;
+  canHold: boolean;
+  randomizer: RandomizerState;
+  /** Internal state of the garbage hole generator */
+  garbageRandom: number;
+  master: MasterState | null;
+  frame: number;
+  countdownFrames: number;
+  startFrame: number;
+  splits: number[];
+  areTimer: number;
+  garbageTimer: number;
+  garbageInterval: number;
+  lastGarbageHole: number | null;
+  garbageReceived: number;
+  incomingGarbage: IncomingGarbage[];
+  dropTimer: number;
+  lockTimer: number;
+  lockResets: number;
+  lowestRow: number;
+  previousPosition: Position | null;
+  lastWasRotation: boolean;
+  lastRotationWas180: boolean;
+  lastKick: Position | null;
+  pieceInputs: number;
+  pieceSoftDropped: boolean;
+  pieceDropRows: number;
+}
+
+/**
+ * Serialize a snapshot to JSON
+ */
+export function serializeSnapshot(snapshot: GameSnapshot): string {
+  return JSON.stringify(snapshot);
+}
+
+/**
+ * Parse and validate a snapshot from JSON
+ */
+export function parseSnapshot(json: string): GameSnapshot {
+  let data: Partial<GameSnapshot>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new GameError('Snapshot is not valid JSON', 'SNAPSHOT_INVALID');
+  }
+
+  if (!data || typeof data !== 'object') {
+    throw new GameError('Snapshot is not an object', 'SNAPSHOT_INVALID');
+  }
+
+  if (data.version !== SNAPSHOT_VERSION) {
+    throw new GameError(`Unsupported snapshot version: ${data.version}`, 'SNAPSHOT_VERSION_UNSUPPORTED');
+  }
+
+  if (!Object.values(GameModeType).includes(data.mode as GameModeType)) {
+    throw new GameError(`Unknown snapshot mode: ${data.mode}`, 'SNAPSHOT_INVALID');
+  }
+
+  if (!Array.isArray(data.grid) || data.grid.length !== TOTAL_HEIGHT) {
+    throw new GameError('Snapshot board has the wrong size', 'SNAPSHOT_INVALID');
+  }
+
+  if (
+    typeof data.seed !== 'number' ||
+    typeof data.frame !== 'number' ||
+    !data.stats ||
+    !data.randomizer ||
+    !Array.isArray(data.randomizer.queue)
+  ) {
+    throw new GameError('Snapshot is missing seed, frame, stats or randomizer', 'SNAPSHOT_INVALID');
+  }
+
+  return data as GameSnapshot;
+}
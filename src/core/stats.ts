@@ -0,0 +1,32 @@
+import { GameStats } from '@/types/tetris';
+
+/**
+ * Rates derived from the running game statistics
+ */
+export interface PerformanceStats {
+  /** Play time in milliseconds */
+  time: number;
+  /** Pieces per second */
+  pps: number;
+  /** Keys per piece */
+  kpp: number;
+  /** Attack (garbage lines sent) per minute */
+  apm: number;
+  /** Share of cleared lines that came from Tetrises (0-1) */
+  tetrisRate: number;
+}
+
+/**
+ * Work out rate statistics; rates are 0 until there is something to divide by
+ * @param time Play time in milliseconds
+ */
+export function getPerformanceStats(stats: GameStats, time: number): PerformanceStats {
+  const seconds = time / 1000;
+  return {
+    time,
+    pps: seconds > 0 ? stats.pieces / seconds : 0,
+    kpp: stats.pieces > 0 ? stats.keys / stats.pieces : 0,
+    apm: seconds > 0 ? stats.attack / (seconds / 60) : 0,
+    tetrisRate: stats.lines > 0 ? (stats.tetrises * 4) / stats.lines : 0,
+  };
+}
@@ -0,0 +1,52 @@
+import { SIMULATION_FPS, MAX_CATCH_UP_FRAMES } from '@/types/tetris';
+
+/**
+ * Convert a duration in milliseconds to simulation frames
+ */
+export function msToFrames(ms: number): number {
+  return (ms * SIMULATION_FPS) / 1000;
+}
+
+/**
+ * Fixed timestep accumulator
+ * Turns variable render deltas into a whole number of simulation frames
+ */
+export class FixedTimestep {
+  private accumulator = 0; // Pending time in frames
+
+  /**
+   * Accumulate elapsed time and run one step per whole frame
+   * After a long stall, at most MAX_CATCH_UP_FRAMES steps run and the rest is dropped
+   * @returns Number of steps run
+   */
+  advance(deltaTime: number, step: () => void): number {
+    this.accumulator += msToFrames(deltaTime);
+
+    let steps = 0;
+    while (this.accumulator >= 1) {
+      if (steps >= MAX_CATCH_UP_FRAMES) {
+        this.accumulator %= 1;
+        break;
+      }
+      this.accumulator -= 1;
+      step();
+      steps++;
+    }
+
+    return steps;
+  }
+
+  /**
+   * Get the fraction of the next frame already accumulated (0 to 1)
+   */
+  getAlpha(): number {
+    return this.accumulator;
+  }
+
+  /**
+   * Discard any pending time
+   */
+  reset(): void {
+    this.accumulator = 0;
+  }
+}
@@ -0,0 +1,82 @@
+import { GameModeType } from '@/types/tetris';
+import { GameError } from '@/utils/error-handler';
+import { Game, GameEvent } from './game';
+
+/**
+ * Versus match events
+ */
+export interface VersusEvent {
+  type: 'match_start' | 'match_over';
+  data: Record<string, number>;
+}
+
+/**
+ * Two games played against each other: lines one player sends rise on the other's board
+ * Both players get the same seed, so the same pieces in the same order
+ */
+export class VersusMatch {
+  private readonly players: Game[];
+  private winner: number | null = null;
+  private over = false;
+  private eventHandlers: Map<string, ((event: VersusEvent) => void)[]> = new Map();
+
+  constructor(players: Game[]) {
+    if (players.length !== 2) {
+      throw new GameError('A versus match needs exactly two players', 'INVALID_PLAYERS');
+    }
+    this.players = players;
+
+    players.forEach((game, index) => {
+      const opponent = players[1 - index];
+      game.on('attack', (event: GameEvent) => opponent.receiveGarbage(event.data.lines));
+      game.on('game_over', () => this.endMatch(1 - index));
+    });
+  }
+
+  /**
+   * Start both games together so they share the countdown
+   * @param seed Piece seed for both players; drawn from the clock when omitted
+   */
+  start(seed: number = Date.now()): void {
+    this.winner = null;
+    this.over = false;
+    for (const game of this.players) {
+      game.setMode(GameModeType.VERSUS);
+      game.setSeed(seed);
+      game.start();
+    }
+    this.emit({ type: 'match_start', data: { seed } });
+  }
+
+  /**
+   * Stop the match; the survivor's game is finished as a win
+   */
+  private endMatch(winner: number): void {
+    if (this.over) return;
+    this.over = true;
+    this.winner = winner;
+    this.players[winner].finish();
+    this.emit({ type: 'match_over', data: { winner } });
+  }
+
+  /**
+   * Subscribe to match events
+   */
+  on(event: string, handler: (event: VersusEvent) => void): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, []);
+    }
+    this.eventHandlers.get(event)!.push(handler);
+  }
+
+  private emit(event: VersusEvent): void {
+    const handlers = this.eventHandlers.get(event.type);
+    if (handlers) {
+      handlers.forEach(handler => handler(event));
+    }
+  }
+
+  getPlayers(): Game[] { return [...this.players]; }
+  getWinner(): number | null { return this.winner; }
+  isOver(): boolean { return this.over; }
+}
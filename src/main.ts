@@ -1,10 +1,25 @@
 import './style.css';
 import { Game, InputAction } from '@/core/game';
+import { Replay, ReplayRecorder, serializeReplay } from '@/core/replay';
+import { createLeaderboardEntry, getLeaderboardRanking, getRuleset } from '@/core/leaderboard';
+import { Bot } from '@/core/ai';
 import { Renderer } from '@/renderer/renderer';
-import { GameState } from '@/types/tetris';
-import { UIManager } from '@/ui/ui-manager';
+import { GameState, GameOverReason, GameModeType } from '@/types/tetris';
+import { UIManager, DialogAction } from '@/ui/ui-manager';
 import { ErrorHandler } from '@/utils/error-handler';
+import { loadHandlingSettings, saveHandlingSettings } from '@/utils/handling-storage';
+import {
+  loadLeaderboard,
+  addLeaderboardEntry,
+  getLeaderboardRank,
+  loadLeaderboardReplay,
+  loadPlayerName,
+  savePlayerName,
+} from '@/utils/leaderboard-storage';
+import { loadStatsPanel, saveStatsPanel } from '@/utils/stats-panel-storage';
+import { saveGame, loadSavedGame, clearSavedGame } from '@/utils/save-storage';
 import { renderBackground, updateBackgroundTime } from '@/components/Background';
+import { VersusApp } from './versus-app';
 import '@/components/Background.css';
 
 /**
@@ -20,10 +35,14 @@ const KEY_MAPPING: Record<string, InputAction> = {
   'Z': InputAction.ROTATE_CCW,
   'x': InputAction.ROTATE_CW,
   'X': InputAction.ROTATE_CW,
+  'a': InputAction.ROTATE_180,
+  'A': InputAction.ROTATE_180,
   'c': InputAction.HOLD,
   'C': InputAction.HOLD,
   'p': InputAction.PAUSE,
   'P': InputAction.PAUSE,
+  'u': InputAction.UNDO,
+  'U': InputAction.UNDO,
 };
 
 /**
@@ -33,10 +52,17 @@ class TetrisApp {
   private game: Game;
   private renderer: Renderer;
   private uiManager: UIManager;
+  private recorder: ReplayRecorder;
   private pressedKeys: Set<string> = new Set();
+  private bot: Bot | null = null;
+  /** Whether the bot played any of the current game, which keeps it off the leaderboard */
+  private botPlayed = false;
+  /** Leaderboard rank of the last finished game, or null if it did not place */
+  private lastRank: number | null = null;
 
   constructor() {
-    this.game = new Game();
+    this.game = new Game({ handling: loadHandlingSettings() });
+    this.recorder = new ReplayRecorder(this.game);
     this.renderer = new Renderer(this.game);
     this.uiManager = new UIManager();
   }
@@ -63,14 +89,32 @@ class TetrisApp {
       // Setup keyboard input
       this.setupKeyboardInput();
 
+      // Setup settings screen
+      this.setupSettings();
+
+      // Setup the stats panel and its picker
+      this.setupStatsPanel();
+
+      // Setup mode selection
+      this.setupModeSelect();
+
+      // Setup the bot toggle
+      this.setupBot();
+
+      // Setup the practice (undo) toggle
+      this.setupPractice();
+
       // Setup game event handlers
       this.setupGameEvents();
 
+      // Save the game in progress when the page is hidden or closed
+      this.setupAutosave();
+
       // Start UI update loop
       this.startUIUpdateLoop();
 
-      // Start the game
-      this.game.start();
+      // Start the game, or carry on a saved one
+      this.startOrResume();
     } catch (error) {
       ErrorHandler.handle(error instanceof Error ? error : new Error(String(error)), 'App initialization');
       this.showErrorMessage(error instanceof Error ? error.message : 'Unknown error occurred');
@@ -94,6 +138,11 @@ class TetrisApp {
   private setupKeyboardInput(): void {
     // Handle keydown
     window.addEventListener('keydown', (event) => {
+      // Leave keys alone while typing into a form field
+      if (event.target instanceof HTMLInputElement) {
+        return;
+      }
+
       // Prevent default for game keys
       if (KEY_MAPPING[event.key]) {
         event.preventDefault();
@@ -134,13 +183,196 @@ class TetrisApp {
     });
   }
 
+  /**
+   * Open the handling settings screen from its button, pausing the game while it is shown
+   */
+  private setupSettings(): void {
+    const settingsButton = ErrorHandler.getRequiredElement('settings-btn');
+    settingsButton.addEventListener('click', () => {
+      settingsButton.blur();
+      const paused = this.game.getState() === GameState.PLAYING;
+      if (paused) {
+        this.game.handleInput(InputAction.PAUSE, true);
+      }
+
+      this.uiManager.showHandlingSettingsDialog(
+        loadHandlingSettings(),
+        (settings) => {
+          saveHandlingSettings(settings);
+          this.game.setHandling(settings);
+        },
+        () => {
+          if (paused) {
+            this.game.handleInput(InputAction.PAUSE, true);
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Show the saved stats panel and let its button pick the statistics, pausing the game meanwhile
+   */
+  private setupStatsPanel(): void {
+    this.uiManager.setStatsPanel(loadStatsPanel());
+
+    const statsButton = ErrorHandler.getRequiredElement('stats-btn');
+    statsButton.addEventListener('click', () => {
+      statsButton.blur();
+      const paused = this.game.getState() === GameState.PLAYING;
+      if (paused) {
+        this.game.handleInput(InputAction.PAUSE, true);
+      }
+
+      this.uiManager.showStatsPanelDialog(
+        loadStatsPanel(),
+        (keys) => {
+          saveStatsPanel(keys);
+          this.uiManager.setStatsPanel(keys);
+        },
+        () => {
+          if (paused) {
+            this.game.handleInput(InputAction.PAUSE, true);
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Save the game in progress whenever the page may go away; a finished game leaves no save
+   */
+  private setupAutosave(): void {
+    const save = () => {
+      if (this.game.isInProgress()) {
+        saveGame({
+          snapshot: this.game.getSnapshot(),
+          replay: this.recorder.getReplay(),
+          botPlayed: this.botPlayed,
+        });
+      } else {
+        clearSavedGame();
+      }
+    };
+
+    document.addEventListener('visibilitychange', () => {
+      if (document.hidden) save();
+    });
+    window.addEventListener('beforeunload', save);
+  }
+
+  /**
+   * Offer to resume a saved game, otherwise start a new one
+   * The saved game is restored (paused) behind the prompt, so it shows on the board
+   */
+  private startOrResume(): void {
+    const saved = loadSavedGame();
+    if (!saved) {
+      this.game.start();
+      return;
+    }
+
+    this.game.restoreSnapshot(saved.snapshot);
+    this.recorder.resume(saved.replay);
+    // A game the bot helped with stays off the leaderboard after resuming
+    this.botPlayed = saved.botPlayed;
+    (ErrorHandler.getRequiredElement('mode-select') as HTMLSelectElement).value = saved.snapshot.mode;
+
+    const stats = this.game.getStats();
+    this.uiManager.showResumeDialog(
+      {
+        mode: this.game.getMode().name,
+        savedAt: saved.snapshot.savedAt,
+        score: stats.score,
+        lines: stats.lines,
+        time: this.game.getElapsedTime(),
+      },
+      () => {
+        if (this.game.getState() === GameState.PAUSED) {
+          this.game.handleInput(InputAction.PAUSE, true);
+        }
+      },
+      () => {
+        clearSavedGame();
+        this.game.start();
+      }
+    );
+  }
+
+  /**
+   * Let the built-in AI take over the game from its button
+   */
+  private setupBot(): void {
+    const botButton = ErrorHandler.getRequiredElement('bot-btn');
+    botButton.addEventListener('click', () => {
+      botButton.blur();
+      this.bot = this.bot ? null : new Bot(this.game);
+      this.botPlayed ||= this.bot !== null;
+      botButton.textContent = this.bot ? 'BOT: ON' : 'BOT: OFF';
+    });
+  }
+
+  /**
+   * Switch practice play, where placements can be undone, on or off from its button
+   * Switching restarts the game so a run never mixes practice and normal play
+   */
+  private setupPractice(): void {
+    const practiceButton = ErrorHandler.getRequiredElement('practice-btn');
+    const updateLabel = () => {
+      practiceButton.textContent = this.game.getOptions().practice ? 'PRACTICE: ON' : 'PRACTICE: OFF';
+    };
+
+    practiceButton.addEventListener('click', () => {
+      practiceButton.blur();
+      this.game.setPractice(!this.game.getOptions().practice);
+      this.game.start();
+    });
+    this.game.on('game_start', updateLabel);
+    this.game.on('game_restore', updateLabel);
+  }
+
+  /**
+   * Restart in the mode picked from the mode selector
+   */
+  private setupModeSelect(): void {
+    const modeSelect = ErrorHandler.getRequiredElement('mode-select') as HTMLSelectElement;
+    modeSelect.addEventListener('change', () => {
+      modeSelect.blur();
+      // Versus runs two boards in its own layout
+      if (modeSelect.value === GameModeType.VERSUS) {
+        window.location.search = `?mode=${GameModeType.VERSUS}`;
+        return;
+      }
+      this.game.setMode(modeSelect.value as GameModeType);
+      this.game.start();
+    });
+  }
+
   /**
    * Setup game event handlers
    */
   private setupGameEvents(): void {
+    this.game.on('game_start', () => {
+      this.botPlayed = this.bot !== null;
+    });
+
     // Handle game over
-    this.game.on('game_over', () => {
-      this.showGameOverDialog();
+    this.game.on('game_over', (event) => {
+      this.recordRun(() => {
+        if (this.game.getMode().master) {
+          this.showMasterResultsDialog(false);
+        } else if (this.game.getMode().type === GameModeType.SURVIVAL) {
+          this.showSurvivalResultsDialog();
+        } else {
+          this.showGameOverDialog(event.data.reason);
+        }
+      });
+    });
+
+    // Master sections move the background on like level ups
+    this.game.on('section', (event) => {
+      updateBackgroundTime(event.data.section + 1);
+      this.showLevelUpEffect();
     });
 
     // Handle level up
@@ -152,8 +384,23 @@ class TetrisApp {
       this.showLevelUpEffect();
     });
 
-    // Handle game completion (999 lines)
-    this.checkGameCompletion();
+    // Handle reaching the mode's goal
+    this.game.on('game_complete', (event) => {
+      this.recordRun(() => {
+        if (event.data.mode === GameModeType.SPRINT || event.data.mode === GameModeType.DIG) {
+          this.showRaceResultsDialog(event.data.time);
+        } else if (event.data.mode === GameModeType.MASTER) {
+          this.showMasterResultsDialog(true);
+        } else {
+          this.showCompletionDialog();
+        }
+      });
+    });
+
+    // Handle the end of a timed mode
+    this.game.on('time_up', () => {
+      this.recordRun(() => this.showUltraResultsDialog());
+    });
   }
 
   /**
@@ -203,37 +450,183 @@ class TetrisApp {
   }
 
   /**
-   * Check for game completion
+   * Show game over dialog
    */
-  private checkGameCompletion(): void {
-    setInterval(() => {
-      const state = this.game.getState();
-      const stats = this.game.getStats();
-      
-      if (state === GameState.PLAYING && stats.lines >= 999) {
-        this.showCompletionDialog();
-      }
-    }, 100);
+  private showGameOverDialog(reason: GameOverReason): void {
+    const stats = this.game.getStats();
+    this.uiManager.showGameOverDialog(
+      stats,
+      () => {
+        this.game.start();
+      },
+      this.getResultActions(),
+      reason
+    );
   }
 
   /**
-   * Show game over dialog
+   * Put a finished game on its leaderboard if it places, asking for a name first, then show its results
    */
-  private showGameOverDialog(): void {
-    const stats = this.game.getStats();
-    this.uiManager.showGameOverDialog(stats, () => {
-      this.game.start();
+  private recordRun(showResults: () => void): void {
+    this.lastRank = null;
+    const mode = this.game.getMode().type;
+    const ranking = getLeaderboardRanking(mode);
+    const entry = createLeaderboardEntry(this.game);
+    if (!ranking || !entry || this.botPlayed) {
+      showResults();
+      return;
+    }
+
+    const ruleset = getRuleset(this.game);
+    const rank = getLeaderboardRank(mode, ruleset, ranking, entry);
+    if (rank === null) {
+      showResults();
+      return;
+    }
+
+    this.uiManager.showNameEntryDialog(rank, loadPlayerName(), (name) => {
+      savePlayerName(name);
+      this.lastRank = addLeaderboardEntry(mode, ruleset, ranking, { ...entry, name }, this.recorder.getReplay());
+      showResults();
     });
   }
 
+  /**
+   * Buttons offered next to "Play Again" on the results dialogs
+   */
+  private getResultActions(): DialogAction[] {
+    const actions = [{ text: 'Download Replay', onClick: () => this.downloadReplay(this.recorder.getReplay()) }];
+    if (getLeaderboardRanking(this.game.getMode().type)) {
+      actions.unshift({ text: 'Leaderboard', onClick: () => this.showLeaderboard() });
+    }
+    return actions;
+  }
+
+  /**
+   * Show the leaderboard for the current mode and rules, marking the last game's place
+   */
+  private showLeaderboard(): void {
+    const mode = this.game.getMode();
+    const ranking = getLeaderboardRanking(mode.type);
+    if (!ranking) return;
+
+    const ruleset = getRuleset(this.game);
+    this.uiManager.showLeaderboardDialog({
+      title: `${mode.name} (${ruleset})`,
+      ranking,
+      entries: loadLeaderboard(mode.type, ruleset),
+      highlight: this.lastRank,
+      onReplay: (entry) => {
+        const replay = entry.replayId ? loadLeaderboardReplay(entry.replayId) : null;
+        if (replay) this.downloadReplay(replay);
+      },
+    });
+  }
+
+  /**
+   * Download a replay as a JSON file
+   */
+  private downloadReplay(replay: Replay): void {
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = replay.options.practice
+      ? `tetris-replay-practice-${replay.seed}.json`
+      : `tetris-replay-${replay.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
   /**
    * Show completion dialog (999 lines)
    */
   private showCompletionDialog(): void {
     const stats = this.game.getStats();
-    this.uiManager.showCompletionDialog(stats, () => {
-      this.game.start();
-    });
+    this.uiManager.showCompletionDialog(
+      stats,
+      () => {
+        this.game.start();
+      },
+      this.getResultActions()
+    );
+  }
+
+  /**
+   * Show Sprint or Dig results with the final time
+   */
+  private showRaceResultsDialog(time: number): void {
+    const stats = this.game.getStats();
+    this.uiManager.showRaceResultsDialog(
+      {
+        time,
+        pps: time > 0 ? stats.pieces / (time / 1000) : 0,
+        finesseFaults: stats.finesseFaults,
+        splits: this.game.getSplits(),
+      },
+      () => {
+        this.game.start();
+      },
+      this.getResultActions()
+    );
+  }
+
+  /**
+   * Show Survival results with the time and lines survived
+   */
+  private showSurvivalResultsDialog(): void {
+    this.uiManager.showSurvivalResultsDialog(
+      {
+        time: this.game.getElapsedTime(),
+        lines: this.game.getStats().lines,
+        garbage: this.game.getGarbageReceived(),
+      },
+      () => {
+        this.game.start();
+      },
+      this.getResultActions()
+    );
+  }
+
+  /**
+   * Show Master results with the grade and section times
+   */
+  private showMasterResultsDialog(completed: boolean): void {
+    const stats = this.game.getStats();
+    this.uiManager.showMasterResultsDialog(
+      {
+        completed,
+        grade: this.game.getGrade() ?? '',
+        level: stats.level,
+        score: stats.score,
+        time: this.game.getElapsedTime(),
+        sectionTimes: this.game.getSectionTimes(),
+      },
+      () => {
+        this.game.start();
+      },
+      this.getResultActions()
+    );
+  }
+
+  /**
+   * Show Ultra results with the final score and leaderboard rank
+   */
+  private showUltraResultsDialog(): void {
+    const stats = this.game.getStats();
+    const time = this.game.getElapsedTime();
+    this.uiManager.showUltraResultsDialog(
+      {
+        score: stats.score,
+        lines: stats.lines,
+        pps: time > 0 ? stats.pieces / (time / 1000) : 0,
+        rank: this.lastRank,
+      },
+      () => {
+        this.game.start();
+      },
+      this.getResultActions()
+    );
   }
 
   /**
@@ -259,9 +652,16 @@ class TetrisApp {
           fpsUpdateTimer = 0;
         }
 
+        // Let the bot play its next inputs
+        this.bot?.update(deltaTime);
+
         // Update game stats
         const stats = this.game.getStats();
         this.uiManager.updateStats(stats);
+        this.uiManager.updateStatsPanel(stats, this.game.getPerformanceStats());
+        // Timed modes count down, others count up
+        this.uiManager.updateTimer(this.game.getRemainingTime() ?? this.game.getElapsedTime());
+        this.uiManager.updateGarbageMeter(this.game.getGarbageCountdown());
       }, 'UI update loop');
 
       requestAnimationFrame(updateLoop);
@@ -298,7 +698,8 @@ document.addEventListener('DOMContentLoaded', async () => {
   });
 
   try {
-    const app = new TetrisApp();
+    const mode = new URLSearchParams(window.location.search).get('mode');
+    const app = mode === GameModeType.VERSUS ? new VersusApp() : new TetrisApp();
     await app.init();
   } catch (error) {
     ErrorHandler.handle(error instanceof Error ? error : new Error(String(error)), 'App startup');
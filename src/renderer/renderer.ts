@@ -1,13 +1,15 @@
 import * as PIXI from 'pixi.js';
 import { 
   TetrominoType, 
+  TSpinType,
   TETROMINO_COLORS, 
+  GARBAGE,
+  GARBAGE_COLOR,
   BOARD_WIDTH, 
   BOARD_HEIGHT, 
   HIDDEN_ROWS
 } from '@/types/tetris';
 import { Game } from '@/core/game';
-import { PieceData } from '@/core/piece';
 import { AnimationUtils } from '@/utils/animation-utils';
 import { ParticleSystem } from '@/utils/particle-system';
 
@@ -36,8 +38,9 @@ export class Renderer {
   private holdCanvas: HTMLCanvasElement | null = null;
   private nextCanvases: HTMLCanvasElement[] = [];
   
-  private blockTextures: Map<TetrominoType, PIXI.Texture> = new Map();
+  private blockTextures: Map<TetrominoType | typeof GARBAGE, PIXI.Texture> = new Map();
   private particleSystem!: ParticleSystem;
+  private countdownText: PIXI.Text | null = null;
   
   private frameCount = 0;
   private fpsUpdateTimer = 0;
@@ -184,6 +187,27 @@ export class Renderer {
       
       graphics.destroy();
     });
+
+    this.createGarbageTexture();
+  }
+
+  /**
+   * Create the garbage block texture: flat grey with a sunken inner square,
+   * so garbage reads apart from every tetromino
+   */
+  private createGarbageTexture(): void {
+    const graphics = new PIXI.Graphics();
+
+    graphics.beginFill(GARBAGE_COLOR);
+    graphics.drawRect(1, 1, BLOCK_SIZE - 2, BLOCK_SIZE - 2);
+    graphics.endFill();
+
+    graphics.beginFill(0x000000, 0.35);
+    graphics.drawRect(6, 6, BLOCK_SIZE - 12, BLOCK_SIZE - 12);
+    graphics.endFill();
+
+    this.blockTextures.set(GARBAGE, this.app.renderer.generateTexture(graphics));
+    graphics.destroy();
   }
 
   /**
@@ -235,13 +259,25 @@ export class Renderer {
       // Don't emit landing particles here anymore since we handle it in piece_landing
     });
     
-    this.game.on('tspin', () => {
-      this.animateTSpin();
+    this.game.on('tspin', (event) => {
+      this.animateTSpin(event.data.type, event.data.lines, event.data.backToBack);
     });
     
     this.game.on('combo', (event) => {
       this.animateCombo(event.data.combo);
     });
+
+    this.game.on('perfect_clear', () => {
+      this.animatePerfectClear();
+    });
+
+    this.game.on('game_start', () => {
+      this.clearCountdown();
+    });
+
+    this.game.on('countdown', (event) => {
+      this.animateCountdown(event.data.phase);
+    });
   }
 
   /**
@@ -260,7 +296,7 @@ export class Renderer {
       this.fpsUpdateTimer = 0;
     }
     
-    // Update game
+    // Update game (advances in fixed simulation frames internally)
     this.game.update(deltaTime);
     
     // Update particle system
@@ -305,19 +341,20 @@ export class Renderer {
     this.pieceContainer.removeChildren();
     
     const piece = this.game.getCurrentPiece();
-    if (!piece) return;
+    const renderPos = this.game.getInterpolatedPiecePosition();
+    if (!piece || !renderPos) return;
     
-    const shape = PieceData.getShape(piece.type, piece.rotation);
+    const shape = this.game.getRotationSystem().getShape(piece.type, piece.rotation);
     const texture = this.blockTextures.get(piece.type);
     
     for (let row = 0; row < shape.length; row++) {
       for (let col = 0; col < shape[row].length; col++) {
         if (shape[row][col] === 0) continue;
         
-        const x = piece.position.x + col;
-        const y = piece.position.y + row - HIDDEN_ROWS;
+        const x = renderPos.x + col;
+        const y = renderPos.y + row - HIDDEN_ROWS;
         
-        if (y >= 0) {
+        if (piece.position.y + row >= HIDDEN_ROWS) {
           const sprite = new PIXI.Sprite(texture);
           sprite.x = x * BLOCK_SIZE;
           sprite.y = y * BLOCK_SIZE;
@@ -337,7 +374,7 @@ export class Renderer {
     const ghostPos = this.game.getGhostPosition();
     if (!piece || !ghostPos) return;
     
-    const shape = PieceData.getShape(piece.type, piece.rotation);
+    const shape = this.game.getRotationSystem().getShape(piece.type, piece.rotation);
     const texture = this.blockTextures.get(piece.type);
     
     for (let row = 0; row < shape.length; row++) {
@@ -405,7 +442,7 @@ export class Renderer {
     centerX: number, 
     centerY: number
   ): void {
-    const shape = PieceData.getShape(type, 0);
+    const shape = this.game.getRotationSystem().getShape(type, 0);
     const color = TETROMINO_COLORS[type];
     const blockSize = 20;
     
@@ -484,10 +521,20 @@ export class Renderer {
   /**
    * Animate T-Spin
    */
-  private animateTSpin(): void {
+  private animateTSpin(type: TSpinType, lines: number, backToBack: boolean): void {
     const glow = AnimationUtils.createTSpinGlow(BOARD_WIDTH, BOARD_HEIGHT, BLOCK_SIZE);
     this.effectsContainer.addChild(glow);
     AnimationUtils.fadeOut(glow, this.effectsContainer, 2000, 0.02);
+
+    const label = [
+      backToBack ? 'B2B' : '',
+      'T-SPIN',
+      type === TSpinType.MINI ? 'MINI' : '',
+      ['', 'SINGLE', 'DOUBLE', 'TRIPLE'][lines] ?? '',
+    ].filter(Boolean).join(' ');
+    const text = AnimationUtils.createTSpinText(label, BOARD_WIDTH, BOARD_HEIGHT, BLOCK_SIZE);
+    this.effectsContainer.addChild(text);
+    AnimationUtils.scaleAndFade(text, this.effectsContainer);
   }
 
   /**
@@ -499,13 +546,50 @@ export class Renderer {
     AnimationUtils.scaleAndFade(text, this.effectsContainer);
   }
 
+  /**
+   * Animate perfect clear
+   */
+  private animatePerfectClear(): void {
+    const text = AnimationUtils.createPerfectClearText(BOARD_WIDTH, BOARD_HEIGHT, BLOCK_SIZE);
+    this.effectsContainer.addChild(text);
+    AnimationUtils.scaleAndFade(text, this.effectsContainer);
+    this.particleSystem.emitPerfectClear(BOARD_WIDTH * BLOCK_SIZE, BOARD_HEIGHT * BLOCK_SIZE);
+  }
+
+  /**
+   * Show READY until the countdown ends, then flash GO
+   */
+  private animateCountdown(phase: 'ready' | 'go'): void {
+    this.clearCountdown();
+
+    const label = phase === 'ready' ? 'READY' : 'GO!';
+    const text = AnimationUtils.createCountdownText(label, BOARD_WIDTH, BOARD_HEIGHT, BLOCK_SIZE);
+    this.effectsContainer.addChild(text);
+    if (phase === 'ready') {
+      this.countdownText = text;
+    } else {
+      AnimationUtils.scaleAndFade(text, this.effectsContainer);
+    }
+  }
+
+  /**
+   * Remove a READY text left from the countdown
+   */
+  private clearCountdown(): void {
+    if (this.countdownText) {
+      this.effectsContainer.removeChild(this.countdownText);
+      this.countdownText.destroy();
+      this.countdownText = null;
+    }
+  }
+
   /**
    * Emit particles for piece landing
    */
   private emitPieceLandingParticles(piece: any): void {
     if (!piece) return;
     
-    const shape = PieceData.getShape(piece.type, piece.rotation);
+    const shape = this.game.getRotationSystem().getShape(piece.type, piece.rotation);
     const color = TETROMINO_COLORS[piece.type as TetrominoType];
     
     // Find the bottom blocks of the piece for particle emission
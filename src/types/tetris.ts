@@ -11,6 +11,16 @@ export enum TetrominoType {
   L = 'L',
 }
 
+/**
+ * Garbage block: fills a board cell but belongs to no tetromino
+ */
+export const GARBAGE = 'GARBAGE';
+
+/**
+ * Contents of one board cell
+ */
+export type Cell = TetrominoType | typeof GARBAGE | null;
+
 /**
  * Rotation states for SRS (Super Rotation System)
  */
@@ -21,6 +31,74 @@ export enum RotationState {
   LEFT = 3,
 }
 
+/**
+ * T-spin classification of a locked T piece
+ */
+export enum TSpinType {
+  NONE = 'NONE',
+  MINI = 'MINI',
+  FULL = 'FULL',
+}
+
+/**
+ * Rotation systems
+ */
+export enum RotationSystemType {
+  SRS = 'SRS',
+  SRS_PLUS = 'SRS_PLUS',
+  ARS = 'ARS',
+  NES = 'NES',
+}
+
+/**
+ * How moves and rotations on the ground interact with the lock delay
+ */
+export enum LockResetMode {
+  /** Guideline extended placement: limited resets, restored on reaching a new lowest row */
+  EXTENDED = 'EXTENDED',
+  /** Every move or rotation restarts the lock delay */
+  INFINITE = 'INFINITE',
+  /** Only stepping down a row restarts the lock delay */
+  STEP = 'STEP',
+}
+
+/**
+ * Game modes
+ */
+export enum GameModeType {
+  MARATHON = 'MARATHON',
+  SPRINT = 'SPRINT',
+  ULTRA = 'ULTRA',
+  MASTER = 'MASTER',
+  DIG = 'DIG',
+  SURVIVAL = 'SURVIVAL',
+  VERSUS = 'VERSUS',
+}
+
+/**
+ * Why a game ended
+ */
+export enum GameOverReason {
+  /** The next piece could not spawn */
+  BLOCK_OUT = 'BLOCK_OUT',
+  /** A piece locked entirely above the visible field */
+  LOCK_OUT = 'LOCK_OUT',
+  /** Blocks were pushed out through the top of the board */
+  TOP_OUT = 'TOP_OUT',
+}
+
+/**
+ * Piece randomizer strategies
+ */
+export enum RandomizerType {
+  BAG_7 = 'BAG_7',
+  BAG_14 = 'BAG_14',
+  RANDOM = 'RANDOM',
+  NES = 'NES',
+  TGM = 'TGM',
+  FIXED = 'FIXED',
+}
+
 /**
  * Game states
  */
@@ -30,6 +108,7 @@ export enum GameState {
   PAUSED = 'PAUSED',
   GAME_OVER = 'GAME_OVER',
   COMPLETED = 'COMPLETED',
+  TIME_UP = 'TIME_UP',
 }
 
 /**
@@ -60,6 +139,67 @@ export interface GameStats {
   lines: number;
   combo: number;
   backToBack: boolean;
+  tSpins: number;
+  tSpinMinis: number;
+  perfectClears: number;
+  pieces: number;
+  finesseFaults: number;
+  /** Garbage lines sent, including lines spent cancelling incoming garbage */
+  attack: number;
+  /** Gameplay key presses, not counting pause */
+  keys: number;
+  maxCombo: number;
+  tetrises: number;
+  /** Pieces locked of each type */
+  pieceCounts: Record<TetrominoType, number>;
+  /** Placements taken back in practice play */
+  undos: number;
+}
+
+/**
+ * Statistics that can be shown in the stats panel
+ */
+export type StatKey =
+  | 'pieces'
+  | 'keys'
+  | 'pps'
+  | 'kpp'
+  | 'apm'
+  | 'maxCombo'
+  | 'tetrisRate'
+  | 'tSpins'
+  | 'pieceCounts';
+
+/**
+ * A finished game on a mode's leaderboard
+ */
+export interface LeaderboardEntry {
+  name: string;
+  score: number;
+  lines: number;
+  level: number;
+  /** Play time in milliseconds */
+  time: number;
+  /** ISO date the game was played */
+  date: string;
+  /** Storage id of the game's replay, or null if none was kept */
+  replayId: string | null;
+  /** Placements taken back; only practice runs can have any */
+  undos: number;
+}
+
+/**
+ * Per-player handling (times in milliseconds)
+ */
+export interface HandlingSettings {
+  /** Delayed auto shift: hold time before auto-repeat starts */
+  das: number;
+  /** Auto repeat rate: time between auto-repeat moves (0 = instant) */
+  arr: number;
+  /** Soft drop factor: multiple of gravity speed (SDF_INSTANT or more = instant) */
+  sdf: number;
+  /** DAS cut delay: auto-repeat pause after a spawn or hold */
+  dcd: number;
 }
 
 /**
@@ -74,8 +214,43 @@ export const TOTAL_HEIGHT = BOARD_HEIGHT + HIDDEN_ROWS;
  * Game timings (in milliseconds)
  */
 export const LOCK_DELAY = 500;
+export const MAX_LOCK_RESETS = 15;
 export const DAS_DELAY = 170;
 export const DAS_PERIOD = 50;
+export const SDF_INSTANT = 41;
+export const COUNTDOWN_DURATION = 1500;
+export const ULTRA_TIME_LIMIT = 120000;
+export const LEADERBOARD_SIZE = 10;
+export const LEADERBOARD_NAME_LENGTH = 12;
+export const MASTER_MAX_LEVEL = 999;
+export const MASTER_SECTION_LEVELS = 100;
+export const DIG_GARBAGE_ROWS = 10;
+export const DEFAULT_GARBAGE_MESSINESS = 1;
+export const GARBAGE_DELAY = 500;
+export const BOT_INPUT_DELAY = 100;
+export const BOT_DEPTH = 0; // Each preview level repeats the search per placement, too slow for the main thread
+export const MAX_UNDO_STEPS = 100;
+export const STAT_KEYS: StatKey[] = [
+  'pieces', 'keys', 'pps', 'kpp', 'apm', 'maxCombo', 'tetrisRate', 'tSpins', 'pieceCounts',
+];
+export const DEFAULT_STATS_PANEL: StatKey[] = ['pps', 'kpp', 'apm', 'maxCombo'];
+
+/**
+ * Default handling
+ */
+export const DEFAULT_HANDLING: HandlingSettings = {
+  das: DAS_DELAY,
+  arr: DAS_PERIOD,
+  sdf: 20,
+  dcd: 0,
+};
+
+/**
+ * Simulation timing
+ * The engine advances in fixed frames independent of the display refresh rate
+ */
+export const SIMULATION_FPS = 60;
+export const MAX_CATCH_UP_FRAMES = 60;
 
 /**
  * Scoring constants
@@ -84,6 +259,19 @@ export const SCORE_SINGLE = 100;
 export const SCORE_DOUBLE = 300;
 export const SCORE_TRIPLE = 500;
 export const SCORE_TETRIS = 800;
+export const SCORE_TSPIN_MINI = 100;
+export const SCORE_TSPIN_MINI_SINGLE = 200;
+export const SCORE_TSPIN_MINI_DOUBLE = 400;
+export const SCORE_TSPIN = 400;
+export const SCORE_TSPIN_SINGLE = 800;
+export const SCORE_TSPIN_DOUBLE = 1200;
+export const SCORE_TSPIN_TRIPLE = 1600;
+export const BACK_TO_BACK_MULTIPLIER = 1.5;
+export const SCORE_PERFECT_CLEAR_SINGLE = 800;
+export const SCORE_PERFECT_CLEAR_DOUBLE = 1200;
+export const SCORE_PERFECT_CLEAR_TRIPLE = 1800;
+export const SCORE_PERFECT_CLEAR_TETRIS = 2000;
+export const SCORE_PERFECT_CLEAR_B2B_TETRIS = 3200;
 export const SCORE_SOFT_DROP = 1;
 export const SCORE_HARD_DROP = 2;
 
@@ -98,4 +286,6 @@ export const TETROMINO_COLORS: Record<TetrominoType, number> = {
   [TetrominoType.Z]: 0xf00000, // Red
   [TetrominoType.J]: 0x0000f0, // Blue
   [TetrominoType.L]: 0xf0a000, // Orange
-};
\ No newline at end of file
+};
+
+export const GARBAGE_COLOR = 0x6a6a6a;
\ No newline at end of file
@@ -1,5 +1,159 @@
-import { GameStats } from '@/types/tetris';
+import {
+  GameStats,
+  GameOverReason,
+  HandlingSettings,
+  LeaderboardEntry,
+  StatKey,
+  TetrominoType,
+  DEFAULT_HANDLING,
+  SDF_INSTANT,
+  STAT_KEYS,
+  LEADERBOARD_NAME_LENGTH,
+} from '@/types/tetris';
+import { HANDLING_LIMITS, normalizeHandling } from '@/core/handling';
+import { PerformanceStats } from '@/core/stats';
+import { LeaderboardRanking } from '@/core/leaderboard';
 import { ErrorHandler } from '@/utils/error-handler';
+import { formatTime } from '@/utils/format';
+
+/**
+ * Game over dialog subtitles
+ */
+const GAME_OVER_REASONS: Record<GameOverReason, string> = {
+  [GameOverReason.BLOCK_OUT]: 'Block Out: no room to spawn the next piece',
+  [GameOverReason.LOCK_OUT]: 'Lock Out: piece locked above the field',
+  [GameOverReason.TOP_OUT]: 'Top Out: stack pushed past the top',
+};
+
+/**
+ * Labels for the handling settings form
+ */
+const HANDLING_FIELDS: { key: keyof HandlingSettings; label: string; unit: string }[] = [
+  { key: 'das', label: 'DAS', unit: 'ms' },
+  { key: 'arr', label: 'ARR', unit: 'ms (0 = instant)' },
+  { key: 'sdf', label: 'SDF', unit: `x gravity (${SDF_INSTANT} = instant)` },
+  { key: 'dcd', label: 'DCD', unit: 'ms' },
+];
+
+/**
+ * Labels and formatting for each statistic the stats panel can show
+ */
+const STATS_PANEL_FIELDS: Record<
+  StatKey,
+  { label: string; format: (stats: GameStats, performance: PerformanceStats) => string }
+> = {
+  pieces: { label: 'PIECES', format: stats => stats.pieces.toString() },
+  keys: { label: 'KEYS', format: stats => stats.keys.toString() },
+  pps: { label: 'PPS', format: (_, performance) => performance.pps.toFixed(2) },
+  kpp: { label: 'KPP', format: (_, performance) => performance.kpp.toFixed(2) },
+  apm: { label: 'APM', format: (_, performance) => performance.apm.toFixed(1) },
+  maxCombo: { label: 'MAX COMBO', format: stats => stats.maxCombo.toString() },
+  tetrisRate: { label: 'TETRIS RATE', format: (_, performance) => `${Math.round(performance.tetrisRate * 100)}%` },
+  tSpins: { label: 'T-SPINS', format: stats => `${stats.tSpins} (mini ${stats.tSpinMinis})` },
+  pieceCounts: {
+    label: 'PIECES BY TYPE',
+    format: stats => Object.values(TetrominoType).map(type => `${type}${stats.pieceCounts[type]}`).join(' '),
+  },
+};
+
+/**
+ * Headline value of a leaderboard entry for each ranking
+ */
+const LEADERBOARD_VALUES: Record<LeaderboardRanking, (entry: LeaderboardEntry) => string> = {
+  score: entry => entry.score.toString(),
+  fastest: entry => formatTime(entry.time),
+  longest: entry => formatTime(entry.time),
+  level: entry => `Lv ${entry.level} (${formatTime(entry.time)})`,
+};
+
+/**
+ * Results of a race to a goal (Sprint, Dig)
+ */
+export interface RaceResults {
+  time: number;
+  pps: number;
+  finesseFaults: number;
+  splits: number[];
+}
+
+/**
+ * Ultra results shown when time is up
+ */
+export interface UltraResults {
+  score: number;
+  lines: number;
+  pps: number;
+  /** Leaderboard rank of this game, or null if it did not place */
+  rank: number | null;
+}
+
+/**
+ * Survival results shown on top-out
+ */
+export interface SurvivalResults {
+  time: number;
+  lines: number;
+  garbage: number;
+}
+
+/**
+ * Master results shown when the game ends or level 999 is reached
+ */
+export interface MasterResults {
+  completed: boolean;
+  grade: string;
+  level: number;
+  score: number;
+  time: number;
+  sectionTimes: number[];
+}
+
+/**
+ * One player's line in the versus results
+ */
+export interface VersusPlayerResults {
+  lines: number;
+  attack: number;
+  pieces: number;
+}
+
+/**
+ * Versus results shown when a player tops out
+ */
+export interface VersusResults {
+  /** Index of the winning player */
+  winner: number;
+  time: number;
+  players: VersusPlayerResults[];
+}
+
+/**
+ * A saved game offered for resuming
+ */
+export interface SavedGameSummary {
+  mode: string;
+  /** ISO date the game was saved */
+  savedAt: string;
+  score: number;
+  lines: number;
+  time: number;
+}
+
+/**
+ * Labelled value row in a dialog
+ */
+export interface DialogDetail {
+  label: string;
+  value: string;
+}
+
+/**
+ * Secondary dialog button
+ */
+export interface DialogAction {
+  text: string;
+  onClick: () => void;
+}
 
 /**
  * UI management class - handles DOM updates and dialogs
@@ -9,12 +163,25 @@ export class UIManager {
   private levelElement: HTMLElement;
   private linesElement: HTMLElement;
   private fpsElement: HTMLElement;
+  private timeElement: HTMLElement;
+  private finesseElement: HTMLElement;
+  private garbageMeterElement: HTMLElement;
+  private garbageMeterFillElement: HTMLElement;
+  private garbageNextElement: HTMLElement;
+  private statsPanelElement: HTMLElement;
+  private statsPanelValues: Map<StatKey, HTMLElement> = new Map();
 
   constructor() {
     this.scoreElement = ErrorHandler.getRequiredElement('score');
     this.levelElement = ErrorHandler.getRequiredElement('level');
     this.linesElement = ErrorHandler.getRequiredElement('lines');
     this.fpsElement = ErrorHandler.getRequiredElement('fps');
+    this.timeElement = ErrorHandler.getRequiredElement('time');
+    this.finesseElement = ErrorHandler.getRequiredElement('finesse');
+    this.garbageMeterElement = ErrorHandler.getRequiredElement('garbage-meter');
+    this.garbageMeterFillElement = ErrorHandler.getRequiredElement('garbage-meter-fill');
+    this.garbageNextElement = ErrorHandler.getRequiredElement('garbage-next');
+    this.statsPanelElement = ErrorHandler.getRequiredElement('stats-panel');
   }
 
   /**
@@ -25,9 +192,67 @@ export class UIManager {
       this.scoreElement.textContent = stats.score.toString();
       this.levelElement.textContent = stats.level.toString();
       this.linesElement.textContent = stats.lines.toString();
+      this.finesseElement.textContent = stats.finesseFaults.toString();
     }, 'UI stats update');
   }
 
+  /**
+   * Rebuild the stats panel to show the given statistics; hidden when none are picked
+   */
+  setStatsPanel(keys: StatKey[]): void {
+    ErrorHandler.safe(() => {
+      this.statsPanelValues.clear();
+      this.statsPanelElement.innerHTML = '';
+      this.statsPanelElement.classList.toggle('hidden', keys.length === 0);
+
+      for (const key of keys) {
+        const row = document.createElement('div');
+        row.innerHTML = `
+          <h3 class="text-xs text-gray-400">${STATS_PANEL_FIELDS[key].label}</h3>
+          <p class="text-lg font-mono">-</p>
+        `;
+        this.statsPanelElement.appendChild(row);
+        this.statsPanelValues.set(key, row.querySelector('p')!);
+      }
+    }, 'Stats panel setup');
+  }
+
+  /**
+   * Update the statistics shown in the stats panel
+   */
+  updateStatsPanel(stats: GameStats, performance: PerformanceStats): void {
+    ErrorHandler.safe(() => {
+      for (const [key, element] of this.statsPanelValues) {
+        element.textContent = STATS_PANEL_FIELDS[key].format(stats, performance);
+      }
+    }, 'Stats panel update');
+  }
+
+  /**
+   * Update the game timer display
+   */
+  updateTimer(ms: number): void {
+    ErrorHandler.safe(() => {
+      this.timeElement.textContent = formatTime(ms);
+    }, 'Timer update');
+  }
+
+  /**
+   * Update the "next garbage in" meter; hidden when there is no rising garbage
+   */
+  updateGarbageMeter(countdown: { remaining: number; interval: number } | null): void {
+    ErrorHandler.safe(() => {
+      this.garbageMeterElement.classList.toggle('hidden', countdown === null);
+      this.garbageMeterElement.classList.toggle('flex', countdown !== null);
+      if (!countdown) return;
+
+      // The bar fills up as the next row approaches
+      const progress = 1 - countdown.remaining / countdown.interval;
+      this.garbageMeterFillElement.style.height = `${Math.round(progress * 100)}%`;
+      this.garbageNextElement.textContent = (countdown.remaining / 1000).toFixed(1);
+    }, 'Garbage meter update');
+  }
+
   /**
    * Update FPS display
    */
@@ -44,9 +269,11 @@ export class UIManager {
     title: string;
     subtitle?: string;
     stats?: GameStats;
+    details?: DialogDetail[];
     buttonText: string;
     buttonColor?: string;
     onRestart: () => void;
+    actions?: DialogAction[];
   }): void {
     const dialog = document.createElement('div');
     dialog.className = 'fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50';
@@ -62,16 +289,33 @@ export class UIManager {
             <p>Score: ${config.stats.score}</p>
             <p>Lines: ${config.stats.lines}</p>
             <p>Level: ${config.stats.level}</p>
+            <p>T-Spins: ${config.stats.tSpins} (Mini: ${config.stats.tSpinMinis})</p>
+            <p>Perfect Clears: ${config.stats.perfectClears}</p>
+          </div>
+        ` : ''}
+        ${config.details ? `
+          <div class="space-y-2 mb-6 font-mono">
+            ${config.details.map(detail => `<p>${detail.label}: ${detail.value}</p>`).join('')}
           </div>
         ` : ''}
         <button id="restart-btn" class="${buttonColorClass} px-6 py-2 rounded">
           ${config.buttonText}
         </button>
+        ${(config.actions ?? []).map((action, index) => `
+          <button data-action-index="${index}" class="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded ml-2">
+            ${action.text}
+          </button>
+        `).join('')}
       </div>
     `;
 
     document.body.appendChild(dialog);
 
+    dialog.querySelectorAll<HTMLButtonElement>('[data-action-index]').forEach(button => {
+      const action = config.actions![Number(button.dataset.actionIndex)];
+      button.addEventListener('click', () => action.onClick());
+    });
+
     const restartBtn = document.getElementById('restart-btn');
     if (restartBtn) {
       restartBtn.addEventListener('click', () => {
@@ -84,32 +328,376 @@ export class UIManager {
   /**
    * Show game over dialog
    */
-  showGameOverDialog(stats: GameStats, onRestart: () => void): void {
+  showGameOverDialog(
+    stats: GameStats,
+    onRestart: () => void,
+    actions?: DialogAction[],
+    reason?: GameOverReason
+  ): void {
     this.showDialog({
       title: 'GAME OVER',
+      subtitle: reason ? GAME_OVER_REASONS[reason] : undefined,
       stats,
       buttonText: 'Play Again',
       onRestart,
+      actions,
     });
   }
 
   /**
    * Show completion dialog (999 lines)
    */
-  showCompletionDialog(stats: GameStats, onRestart: () => void): void {
+  showCompletionDialog(stats: GameStats, onRestart: () => void, actions?: DialogAction[]): void {
     this.showDialog({
       title: 'CONGRATULATIONS!',
       subtitle: 'You completed 999 lines!',
-      stats: {
-        score: stats.score,
-        lines: stats.lines,
-        level: stats.level,
-        combo: stats.combo,
-        backToBack: stats.backToBack,
-      },
+      stats,
+      buttonText: 'Play Again',
+      buttonColor: 'bg-yellow-600 hover:bg-yellow-700',
+      onRestart,
+      actions,
+    });
+  }
+
+  /**
+   * Show race results: final time, speed, finesse and any splits
+   */
+  showRaceResultsDialog(results: RaceResults, onRestart: () => void, actions?: DialogAction[]): void {
+    this.showDialog({
+      title: 'FINISH!',
+      subtitle: formatTime(results.time),
+      details: [
+        { label: 'PPS', value: results.pps.toFixed(2) },
+        { label: 'Finesse Faults', value: results.finesseFaults.toString() },
+        ...results.splits.map((split, index) => ({
+          label: `Split ${index + 1}`,
+          value: formatTime(split),
+        })),
+      ],
+      buttonText: 'Play Again',
+      buttonColor: 'bg-yellow-600 hover:bg-yellow-700',
+      onRestart,
+      actions,
+    });
+  }
+
+  /**
+   * Show Ultra results: final score and leaderboard rank
+   */
+  showUltraResultsDialog(results: UltraResults, onRestart: () => void, actions?: DialogAction[]): void {
+    this.showDialog({
+      title: 'TIME UP',
+      subtitle: `Score: ${results.score}`,
+      details: [
+        { label: 'Lines', value: results.lines.toString() },
+        { label: 'PPS', value: results.pps.toFixed(2) },
+        { label: 'Rank', value: results.rank !== null ? `#${results.rank}` : 'Out of ranking' },
+      ],
       buttonText: 'Play Again',
       buttonColor: 'bg-yellow-600 hover:bg-yellow-700',
       onRestart,
+      actions,
     });
   }
-}
\ No newline at end of file
+
+  /**
+   * Show Survival results: how long and how many lines the player survived
+   */
+  showSurvivalResultsDialog(results: SurvivalResults, onRestart: () => void, actions?: DialogAction[]): void {
+    this.showDialog({
+      title: 'GAME OVER',
+      subtitle: `Survived ${formatTime(results.time)}`,
+      details: [
+        { label: 'Lines', value: results.lines.toString() },
+        { label: 'Garbage Rows', value: results.garbage.toString() },
+      ],
+      buttonText: 'Play Again',
+      onRestart,
+      actions,
+    });
+  }
+
+  /**
+   * Show Master results: grade, level reached and section times
+   */
+  showMasterResultsDialog(results: MasterResults, onRestart: () => void, actions?: DialogAction[]): void {
+    this.showDialog({
+      title: results.completed ? 'MASTER CLEAR!' : 'GAME OVER',
+      subtitle: `Grade: ${results.grade}`,
+      details: [
+        { label: 'Level', value: results.level.toString() },
+        { label: 'Score', value: results.score.toString() },
+        { label: 'Time', value: formatTime(results.time) },
+        ...results.sectionTimes.map((time, index) => ({
+          label: `${index * 100}-${index * 100 + 99}`,
+          value: formatTime(time),
+        })),
+      ],
+      buttonText: 'Play Again',
+      buttonColor: results.completed ? 'bg-yellow-600 hover:bg-yellow-700' : undefined,
+      onRestart,
+      actions,
+    });
+  }
+
+  /**
+   * Show the versus match results: winner and what each player sent
+   */
+  showVersusResultsDialog(results: VersusResults, onRestart: () => void): void {
+    const seconds = results.time / 1000;
+    this.showDialog({
+      title: `PLAYER ${results.winner + 1} WINS!`,
+      subtitle: formatTime(results.time),
+      details: results.players.map((player, index) => ({
+        label: `Player ${index + 1}`,
+        value: `${player.lines} lines, ${player.attack} attack, ` +
+          `${(seconds > 0 ? player.pieces / seconds : 0).toFixed(2)} PPS`,
+      })),
+      buttonText: 'Rematch',
+      buttonColor: 'bg-yellow-600 hover:bg-yellow-700',
+      onRestart,
+    });
+  }
+
+  /**
+   * Offer to carry on a saved game or start a new one
+   */
+  showResumeDialog(saved: SavedGameSummary, onResume: () => void, onNewGame: () => void): void {
+    const dialog = document.createElement('div');
+    dialog.className = 'fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50';
+
+    dialog.innerHTML = `
+      <div class="bg-tetris-grid border-2 border-tetris-border rounded-lg p-8 text-center">
+        <h2 class="text-3xl font-bold mb-2">RESUME GAME?</h2>
+        <p class="text-xl mb-4">${saved.mode}</p>
+        <div class="space-y-2 mb-6 font-mono">
+          <p>Score: ${saved.score}</p>
+          <p>Lines: ${saved.lines}</p>
+          <p>Time: ${formatTime(saved.time)}</p>
+          <p class="text-sm text-gray-400">Saved ${new Date(saved.savedAt).toLocaleString()}</p>
+        </div>
+        <button data-role="resume" class="bg-blue-600 hover:bg-blue-700 px-6 py-2 rounded">Resume</button>
+        <button data-role="new-game" class="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded ml-2">New Game</button>
+      </div>
+    `;
+
+    document.body.appendChild(dialog);
+
+    const choose = (callback: () => void) => () => {
+      document.body.removeChild(dialog);
+      callback();
+    };
+    dialog.querySelector('[data-role="resume"]')!.addEventListener('click', choose(onResume));
+    dialog.querySelector('[data-role="new-game"]')!.addEventListener('click', choose(onNewGame));
+  }
+
+  /**
+   * Ask for a name to put on a new leaderboard record
+   * @param onSubmit Called with the trimmed name
+   */
+  showNameEntryDialog(rank: number, defaultName: string, onSubmit: (name: string) => void): void {
+    const dialog = document.createElement('div');
+    dialog.className = 'fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50';
+
+    dialog.innerHTML = `
+      <form class="bg-tetris-grid border-2 border-tetris-border rounded-lg p-8 text-center">
+        <h2 class="text-3xl font-bold mb-2 text-yellow-400">NEW RECORD!</h2>
+        <p class="text-xl mb-4">Rank #${rank}</p>
+        <input name="name" type="text" maxlength="${LEADERBOARD_NAME_LENGTH}" placeholder="Your name" required
+          class="w-48 bg-gray-800 border border-tetris-border rounded px-2 py-1 font-mono mb-4">
+        <div>
+          <button type="submit" class="bg-yellow-600 hover:bg-yellow-700 px-6 py-2 rounded">OK</button>
+        </div>
+      </form>
+    `;
+
+    document.body.appendChild(dialog);
+
+    const form = dialog.querySelector('form')!;
+    const input = form.elements.namedItem('name') as HTMLInputElement;
+    input.value = defaultName;
+    input.select();
+
+    form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      const name = input.value.trim();
+      if (!name) return;
+      document.body.removeChild(dialog);
+      onSubmit(name);
+    });
+  }
+
+  /**
+   * Show a leaderboard, with a replay button for each run that kept its replay
+   * @param highlight 1-based rank to mark as the latest run, if any
+   */
+  showLeaderboardDialog(config: {
+    title: string;
+    ranking: LeaderboardRanking;
+    entries: LeaderboardEntry[];
+    highlight?: number | null;
+    onReplay: (entry: LeaderboardEntry) => void;
+  }): void {
+    const dialog = document.createElement('div');
+    dialog.className = 'fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50';
+
+    const rows = config.entries.map((entry, index) => `
+      <tr class="${index + 1 === config.highlight ? 'text-yellow-400' : ''}">
+        <td class="pr-4">#${index + 1}</td>
+        <td class="pr-4 text-left" data-role="name"></td>
+        <td class="pr-4 text-right">${LEADERBOARD_VALUES[config.ranking](entry)}</td>
+        <td class="pr-4 text-right">${entry.lines}</td>
+        <td class="pr-4 text-right">${entry.level}</td>
+        <td class="pr-4">${new Date(entry.date).toLocaleDateString()}</td>
+        <td>${entry.replayId ? `<button data-entry-index="${index}" class="underline hover:text-white">Replay</button>` : ''}</td>
+      </tr>
+    `).join('');
+
+    dialog.innerHTML = `
+      <div class="bg-tetris-grid border-2 border-tetris-border rounded-lg p-8 text-center">
+        <h2 class="text-2xl font-bold mb-4">${config.title}</h2>
+        ${config.entries.length > 0 ? `
+          <table class="font-mono text-sm mb-6">
+            <thead class="text-gray-400">
+              <tr><th></th><th class="text-left">Name</th><th></th><th>Lines</th><th>Level</th><th>Date</th><th></th></tr>
+            </thead>
+            <tbody>${rows}</tbody>
+          </table>
+        ` : '<p class="text-gray-400 mb-6">No records yet</p>'}
+        <button data-role="close" class="bg-gray-700 hover:bg-gray-600 px-6 py-2 rounded">Close</button>
+      </div>
+    `;
+
+    // Names are typed by players, so they go in as text rather than markup
+    dialog.querySelectorAll<HTMLElement>('[data-role="name"]').forEach((cell, index) => {
+      const entry = config.entries[index];
+      cell.textContent = entry.name;
+      if (entry.undos > 0) {
+        const mark = document.createElement('span');
+        mark.className = 'ml-2 text-xs text-red-400';
+        mark.textContent = `UNDO x${entry.undos}`;
+        cell.appendChild(mark);
+      }
+    });
+
+    document.body.appendChild(dialog);
+
+    dialog.querySelectorAll<HTMLButtonElement>('[data-entry-index]').forEach(button => {
+      const entry = config.entries[Number(button.dataset.entryIndex)];
+      button.addEventListener('click', () => config.onReplay(entry));
+    });
+
+    dialog.querySelector('[data-role="close"]')!.addEventListener('click', () => {
+      document.body.removeChild(dialog);
+    });
+  }
+
+  /**
+   * Show the handling settings screen
+   * @param onSave Called with the validated settings
+   * @param onClose Called when the screen closes, saved or not
+   */
+  showHandlingSettingsDialog(
+    settings: HandlingSettings,
+    onSave: (settings: HandlingSettings) => void,
+    onClose: () => void
+  ): void {
+    const dialog = document.createElement('div');
+    dialog.className = 'fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50';
+
+    dialog.innerHTML = `
+      <form class="bg-tetris-grid border-2 border-tetris-border rounded-lg p-8 text-left">
+        <h2 class="text-2xl font-bold mb-4 text-center">HANDLING</h2>
+        <div class="space-y-3 mb-4">
+          ${HANDLING_FIELDS.map(field => `
+            <label class="flex items-center justify-between gap-4">
+              <span class="font-bold w-12">${field.label}</span>
+              <input name="${field.key}" type="number" step="any"
+                min="${HANDLING_LIMITS[field.key].min}" max="${HANDLING_LIMITS[field.key].max}"
+                value="${settings[field.key]}"
+                class="w-24 bg-gray-800 border border-tetris-border rounded px-2 py-1 font-mono">
+              <span class="text-xs text-gray-400 w-40">${field.unit}</span>
+            </label>
+          `).join('')}
+        </div>
+        <p class="text-xs text-gray-400 mb-4">Changes apply from the next game.</p>
+        <div class="text-center">
+          <button type="submit" class="bg-blue-600 hover:bg-blue-700 px-6 py-2 rounded">Save</button>
+          <button type="button" data-role="defaults" class="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded ml-2">Defaults</button>
+          <button type="button" data-role="cancel" class="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded ml-2">Cancel</button>
+        </div>
+      </form>
+    `;
+
+    document.body.appendChild(dialog);
+
+    const form = dialog.querySelector('form')!;
+    const close = () => {
+      document.body.removeChild(dialog);
+      onClose();
+    };
+
+    form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      const values: Partial<HandlingSettings> = {};
+      for (const field of HANDLING_FIELDS) {
+        // Empty fields read as NaN and fall back to the defaults
+        values[field.key] = (form.elements.namedItem(field.key) as HTMLInputElement).valueAsNumber;
+      }
+      onSave(normalizeHandling(values));
+      close();
+    });
+
+    dialog.querySelector('[data-role="defaults"]')!.addEventListener('click', () => {
+      for (const field of HANDLING_FIELDS) {
+        (form.elements.namedItem(field.key) as HTMLInputElement).value = String(DEFAULT_HANDLING[field.key]);
+      }
+    });
+
+    dialog.querySelector('[data-role="cancel"]')!.addEventListener('click', close);
+  }
+
+  /**
+   * Show the screen for picking which statistics the stats panel shows
+   * @param onSave Called with the picked statistics, in panel order
+   * @param onClose Called when the screen closes, saved or not
+   */
+  showStatsPanelDialog(keys: StatKey[], onSave: (keys: StatKey[]) => void, onClose: () => void): void {
+    const dialog = document.createElement('div');
+    dialog.className = 'fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50';
+
+    dialog.innerHTML = `
+      <form class="bg-tetris-grid border-2 border-tetris-border rounded-lg p-8 text-left">
+        <h2 class="text-2xl font-bold mb-4 text-center">STATS PANEL</h2>
+        <div class="space-y-2 mb-6">
+          ${STAT_KEYS.map(key => `
+            <label class="flex items-center gap-3">
+              <input name="${key}" type="checkbox" ${keys.includes(key) ? 'checked' : ''}>
+              <span class="font-bold">${STATS_PANEL_FIELDS[key].label}</span>
+            </label>
+          `).join('')}
+        </div>
+        <div class="text-center">
+          <button type="submit" class="bg-blue-600 hover:bg-blue-700 px-6 py-2 rounded">Save</button>
+          <button type="button" data-role="cancel" class="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded ml-2">Cancel</button>
+        </div>
+      </form>
+    `;
+
+    document.body.appendChild(dialog);
+
+    const form = dialog.querySelector('form')!;
+    const close = () => {
+      document.body.removeChild(dialog);
+      onClose();
+    };
+
+    form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      onSave(STAT_KEYS.filter(key => (form.elements.namedItem(key) as HTMLInputElement).checked));
+      close();
+    });
+
+    dialog.querySelector('[data-role="cancel"]')!.addEventListener('click', close);
+  }
+}
@@ -103,6 +103,60 @@ export class AnimationUtils {
     return glow;
   }
 
+  /**
+   * Create T-Spin label text
+   */
+  static createTSpinText(label: string, boardWidth: number, boardHeight: number, blockSize: number): PIXI.Text {
+    const text = new PIXI.Text(label, {
+      fontFamily: 'Arial',
+      fontSize: 18,
+      fill: 0xd080ff,
+      fontWeight: 'bold',
+    });
+
+    text.x = (boardWidth * blockSize) / 2;
+    text.y = (boardHeight * blockSize) / 3;
+    text.anchor.set(0.5);
+
+    return text;
+  }
+
+  /**
+   * Create perfect clear banner text
+   */
+  static createPerfectClearText(boardWidth: number, boardHeight: number, blockSize: number): PIXI.Text {
+    const text = new PIXI.Text('PERFECT CLEAR', {
+      fontFamily: 'Arial',
+      fontSize: 26,
+      fill: 0xffd700,
+      fontWeight: 'bold',
+    });
+
+    text.x = (boardWidth * blockSize) / 2;
+    text.y = (boardHeight * blockSize) / 2;
+    text.anchor.set(0.5);
+
+    return text;
+  }
+
+  /**
+   * Create the READY / GO countdown text
+   */
+  static createCountdownText(label: string, boardWidth: number, boardHeight: number, blockSize: number): PIXI.Text {
+    const text = new PIXI.Text(label, {
+      fontFamily: 'Arial',
+      fontSize: 32,
+      fill: 0xffffff,
+      fontWeight: 'bold',
+    });
+
+    text.x = (boardWidth * blockSize) / 2;
+    text.y = (boardHeight * blockSize) / 2;
+    text.anchor.set(0.5);
+
+    return text;
+  }
+
   /**
    * Create combo text
    */
@@ -0,0 +1,10 @@
+/**
+ * Format a duration in milliseconds as m:ss.mmm
+ */
+export function formatTime(ms: number): string {
+  const totalMs = Math.max(0, Math.floor(ms));
+  const minutes = Math.floor(totalMs / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const millis = totalMs % 1000;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}.${millis.toString().padStart(3, '0')}`;
+}
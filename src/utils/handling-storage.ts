@@ -0,0 +1,35 @@
+import { HandlingSettings } from '@/types/tetris';
+import { normalizeHandling } from '@/core/handling';
+import { ErrorHandler } from './error-handler';
+
+const STORAGE_KEY = 'tetris-handling';
+
+/**
+ * Storage key for the single-player settings, or for one versus player slot
+ */
+function getStorageKey(player?: number): string {
+  return player === undefined ? STORAGE_KEY : `${STORAGE_KEY}-p${player}`;
+}
+
+/**
+ * Load the saved handling settings, falling back to defaults
+ * @param player Versus player slot (1-based); a slot never saved uses the single-player settings
+ */
+export function loadHandlingSettings(player?: number): HandlingSettings {
+  const saved = ErrorHandler.safe(() => {
+    const json = localStorage.getItem(getStorageKey(player)) ?? localStorage.getItem(STORAGE_KEY);
+    return json ? (JSON.parse(json) as Partial<HandlingSettings>) : {};
+  }, 'Handling settings load', {});
+
+  return normalizeHandling(saved);
+}
+
+/**
+ * Persist handling settings
+ * @param player Versus player slot (1-based); omitted for single player
+ */
+export function saveHandlingSettings(settings: HandlingSettings, player?: number): void {
+  ErrorHandler.safe(() => {
+    localStorage.setItem(getStorageKey(player), JSON.stringify(settings));
+  }, 'Handling settings save');
+}
@@ -0,0 +1,123 @@
+import { GameModeType, LeaderboardEntry, LEADERBOARD_SIZE } from '@/types/tetris';
+import { LeaderboardRanking, findLeaderboardPosition } from '@/core/leaderboard';
+import { Replay, serializeReplay, parseReplay } from '@/core/replay';
+import { ErrorHandler } from './error-handler';
+
+const STORAGE_KEY_PREFIX = 'tetris-leaderboard-';
+const REPLAY_KEY_PREFIX = 'tetris-replay-';
+const PLAYER_NAME_KEY = 'tetris-player-name';
+
+function getStorageKey(mode: GameModeType, ruleset: string): string {
+  return `${STORAGE_KEY_PREFIX}${mode}-${ruleset}`;
+}
+
+/**
+ * Load a mode's leaderboard for one ruleset, best run first
+ */
+export function loadLeaderboard(mode: GameModeType, ruleset: string): LeaderboardEntry[] {
+  const entries = ErrorHandler.safe(() => {
+    const json = localStorage.getItem(getStorageKey(mode, ruleset));
+    return json ? (JSON.parse(json) as Partial<LeaderboardEntry>[]) : [];
+  }, 'Leaderboard load') ?? [];
+
+  // Fill in fields missing from entries saved by older versions
+  return entries.map(entry => ({
+    name: '',
+    score: 0,
+    lines: 0,
+    level: 0,
+    time: 0,
+    date: new Date(0).toISOString(),
+    replayId: null,
+    undos: 0,
+    ...entry,
+  }));
+}
+
+/**
+ * Work out the rank a run would get without saving it
+ * @returns The 1-based rank, or null if it would not place
+ */
+export function getLeaderboardRank(
+  mode: GameModeType,
+  ruleset: string,
+  ranking: LeaderboardRanking,
+  entry: LeaderboardEntry
+): number | null {
+  const position = findLeaderboardPosition(ranking, loadLeaderboard(mode, ruleset), entry);
+  return position === null ? null : position + 1;
+}
+
+/**
+ * Add a run to a leaderboard, keeping the top LEADERBOARD_SIZE runs and their replays
+ * @returns The 1-based rank of the entry, or null if it did not place
+ */
+export function addLeaderboardEntry(
+  mode: GameModeType,
+  ruleset: string,
+  ranking: LeaderboardRanking,
+  entry: LeaderboardEntry,
+  replay?: Replay
+): number | null {
+  const entries = loadLeaderboard(mode, ruleset);
+  const position = findLeaderboardPosition(ranking, entries, entry);
+  if (position === null) return null;
+
+  const replayId = replay ? saveReplay(replay) : null;
+  entries.splice(position, 0, { ...entry, replayId });
+
+  // Replays of runs pushed off the board are no longer reachable
+  for (const dropped of entries.splice(LEADERBOARD_SIZE)) {
+    if (dropped.replayId) removeReplay(dropped.replayId);
+  }
+
+  ErrorHandler.safe(() => {
+    localStorage.setItem(getStorageKey(mode, ruleset), JSON.stringify(entries));
+  }, 'Leaderboard save');
+
+  return position + 1;
+}
+
+/**
+ * Store a replay for a leaderboard entry
+ * @returns Its storage id, or null if it could not be stored (e.g. storage full)
+ */
+function saveReplay(replay: Replay): string | null {
+  const replayId = `${Date.now().toString(36)}-${replay.seed.toString(36)}`;
+  return ErrorHandler.safe(() => {
+    localStorage.setItem(REPLAY_KEY_PREFIX + replayId, serializeReplay(replay));
+    return replayId;
+  }, 'Replay save') ?? null;
+}
+
+function removeReplay(replayId: string): void {
+  ErrorHandler.safe(() => {
+    localStorage.removeItem(REPLAY_KEY_PREFIX + replayId);
+  }, 'Replay remove');
+}
+
+/**
+ * Load the replay kept for a leaderboard entry
+ */
+export function loadLeaderboardReplay(replayId: string): Replay | null {
+  return ErrorHandler.safe(() => {
+    const json = localStorage.getItem(REPLAY_KEY_PREFIX + replayId);
+    return json ? parseReplay(json) : null;
+  }, 'Replay load') ?? null;
+}
+
+/**
+ * Load the name last entered for a record
+ */
+export function loadPlayerName(): string {
+  return ErrorHandler.safe(() => localStorage.getItem(PLAYER_NAME_KEY), 'Player name load') ?? '';
+}
+
+/**
+ * Remember the name entered for a record, to fill in next time
+ */
+export function savePlayerName(name: string): void {
+  ErrorHandler.safe(() => {
+    localStorage.setItem(PLAYER_NAME_KEY, name);
+  }, 'Player name save');
+}
@@ -319,6 +319,44 @@ export class ParticleSystem {
     }
   }
 
+  /**
+   * Emit a full-board golden shower for a perfect clear
+   */
+  emitPerfectClear(width: number, height: number): void {
+    const colors = [0xffd700, 0xffffff, 0xffee88, 0xffaa00, 0x88ffff];
+
+    // Golden rain falling across the whole board
+    for (let i = 0; i < 120; i++) {
+      const sprite = this.getPooledSprite();
+      if (!sprite) break;
+
+      const color = colors[Math.floor(Math.random() * colors.length)];
+      sprite.texture = this.createBlockTexture(color, 3 + Math.random() * 4);
+      sprite.x = Math.random() * width;
+      sprite.y = -Math.random() * height * 0.3;
+      sprite.scale.set(0.6 + Math.random() * 1.0);
+
+      const particle: Particle = {
+        sprite,
+        velocity: {
+          x: (Math.random() - 0.5) * 60,
+          y: 40 + Math.random() * 120
+        },
+        life: 0,
+        maxLife: 2.0 + Math.random() * 1.0,
+        gravity: 60 + Math.random() * 40,
+        scale: sprite.scale.x,
+        rotation: Math.random() * Math.PI * 2,
+        rotationSpeed: (Math.random() - 0.5) * 10,
+        alpha: 1
+      };
+
+      this.particles.push(particle);
+    }
+
+    this.emitSparkles(width / 2, height / 2, 10);
+  }
+
   /**
    * Emit sparkle particles for special effects
    */
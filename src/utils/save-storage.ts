@@ -0,0 +1,55 @@
+import { GameSnapshot, serializeSnapshot, parseSnapshot } from '@/core/snapshot';
+import { Replay, serializeReplay, parseReplay } from '@/core/replay';
+import { ErrorHandler } from './error-handler';
+
+const SNAPSHOT_KEY = 'tetris-saved-game';
+const REPLAY_KEY = 'tetris-saved-replay';
+const BOT_PLAYED_KEY = 'tetris-saved-bot-played';
+
+/**
+ * A game in progress saved for later, with the replay recorded so far
+ */
+export interface SavedGame {
+  snapshot: GameSnapshot;
+  replay: Replay;
+  /** Whether the bot played any part of the game, which keeps it off the leaderboard */
+  botPlayed: boolean;
+}
+
+/**
+ * Save a game in progress, replacing any earlier save
+ */
+export function saveGame(saved: SavedGame): void {
+  ErrorHandler.safe(() => {
+    localStorage.setItem(SNAPSHOT_KEY, serializeSnapshot(saved.snapshot));
+    localStorage.setItem(REPLAY_KEY, serializeReplay(saved.replay));
+    localStorage.setItem(BOT_PLAYED_KEY, JSON.stringify(saved.botPlayed));
+  }, 'Game save');
+}
+
+/**
+ * Load the saved game, if there is one that this version can still read
+ */
+export function loadSavedGame(): SavedGame | null {
+  return ErrorHandler.safe(() => {
+    const snapshot = localStorage.getItem(SNAPSHOT_KEY);
+    const replay = localStorage.getItem(REPLAY_KEY);
+    if (!snapshot || !replay) return null;
+    return {
+      snapshot: parseSnapshot(snapshot),
+      replay: parseReplay(replay),
+      botPlayed: localStorage.getItem(BOT_PLAYED_KEY) === 'true',
+    };
+  }, 'Game load') ?? null;
+}
+
+/**
+ * Forget the saved game, e.g. once it has finished
+ */
+export function clearSavedGame(): void {
+  ErrorHandler.safe(() => {
+    localStorage.removeItem(SNAPSHOT_KEY);
+    localStorage.removeItem(REPLAY_KEY);
+    localStorage.removeItem(BOT_PLAYED_KEY);
+  }, 'Saved game clear');
+}
@@ -266,6 +266,19 @@ export class SoundManager {
     ]);
   }
 
+  /**
+   * Play perfect clear sound
+   */
+  async playPerfectClear(): Promise<void> {
+    await this.playSequence([
+      { frequency: 784, duration: 0.1, type: 'sine', volume: 0.4 }, // G5
+      { frequency: 1047, duration: 0.1, type: 'sine', volume: 0.42, delay: 25 }, // C6
+      { frequency: 1319, duration: 0.1, type: 'sine', volume: 0.44, delay: 25 }, // E6
+      { frequency: 1568, duration: 0.12, type: 'sine', volume: 0.46, delay: 25 }, // G6
+      { frequency: 2093, duration: 0.3, type: 'triangle', volume: 0.45, delay: 80 } // C7
+    ]);
+  }
+
   /**
    * Enable/disable sound
    */
@@ -0,0 +1,29 @@
+import { StatKey, STAT_KEYS, DEFAULT_STATS_PANEL } from '@/types/tetris';
+import { ErrorHandler } from './error-handler';
+
+const STORAGE_KEY = 'tetris-stats-panel';
+
+/**
+ * Load the statistics picked for the stats panel, falling back to defaults
+ */
+export function loadStatsPanel(): StatKey[] {
+  const keys = ErrorHandler.safe(() => {
+    const json = localStorage.getItem(STORAGE_KEY);
+    if (!json) return DEFAULT_STATS_PANEL;
+
+    // Drop anything that is no longer a known statistic
+    const saved = JSON.parse(json) as unknown;
+    return Array.isArray(saved) ? STAT_KEYS.filter(key => saved.includes(key)) : DEFAULT_STATS_PANEL;
+  }, 'Stats panel load');
+
+  return keys ?? DEFAULT_STATS_PANEL;
+}
+
+/**
+ * Persist the statistics picked for the stats panel
+ */
+export function saveStatsPanel(keys: StatKey[]): void {
+  ErrorHandler.safe(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(keys));
+  }, 'Stats panel save');
+}
@@ -0,0 +1,244 @@
+import { Game, InputAction } from '@/core/game';
+import { VersusMatch } from '@/core/versus';
+import { Renderer } from '@/renderer/renderer';
+import { GameState, BOARD_HEIGHT } from '@/types/tetris';
+import { UIManager } from '@/ui/ui-manager';
+import { ErrorHandler } from '@/utils/error-handler';
+import { loadHandlingSettings, saveHandlingSettings } from '@/utils/handling-storage';
+import { renderBackground } from '@/components/Background';
+
+/**
+ * Keyboard mapping for each player, by physical key so both hands share one keyboard
+ */
+const PLAYER_KEY_MAPPINGS: Record<string, InputAction>[] = [
+  {
+    'KeyA': InputAction.MOVE_LEFT,
+    'KeyD': InputAction.MOVE_RIGHT,
+    'KeyS': InputAction.SOFT_DROP,
+    'KeyW': InputAction.HARD_DROP,
+    'KeyQ': InputAction.ROTATE_CCW,
+    'KeyE': InputAction.ROTATE_CW,
+    'KeyR': InputAction.ROTATE_180,
+    'ShiftLeft': InputAction.HOLD,
+  },
+  {
+    'ArrowLeft': InputAction.MOVE_LEFT,
+    'ArrowRight': InputAction.MOVE_RIGHT,
+    'ArrowDown': InputAction.SOFT_DROP,
+    'ArrowUp': InputAction.HARD_DROP,
+    'Period': InputAction.ROTATE_CCW,
+    'Slash': InputAction.ROTATE_CW,
+    'Comma': InputAction.ROTATE_180,
+    'ShiftRight': InputAction.HOLD,
+  },
+];
+
+const PAUSE_KEY = 'KeyP';
+
+/**
+ * One side of the split screen
+ */
+interface Player {
+  game: Game;
+  renderer: Renderer;
+  keys: Record<string, InputAction>;
+  scoreElement: HTMLElement;
+  linesElement: HTMLElement;
+  attackElement: HTMLElement;
+  incomingElement: HTMLElement;
+}
+
+/**
+ * Local two-player versus application
+ */
+export class VersusApp {
+  private players: Player[];
+  private match: VersusMatch;
+  private uiManager: UIManager;
+  private pressedKeys: Set<string> = new Set();
+
+  constructor() {
+    this.players = PLAYER_KEY_MAPPINGS.map((keys, index) => {
+      // Each side keeps its own handling, so two players can share the keyboard
+      const game = new Game({ handling: loadHandlingSettings(index + 1) });
+      const prefix = `p${index + 1}`;
+      return {
+        game,
+        renderer: new Renderer(game),
+        keys,
+        scoreElement: ErrorHandler.getRequiredElement(`${prefix}-score`),
+        linesElement: ErrorHandler.getRequiredElement(`${prefix}-lines`),
+        attackElement: ErrorHandler.getRequiredElement(`${prefix}-attack`),
+        incomingElement: ErrorHandler.getRequiredElement(`${prefix}-incoming`),
+      };
+    });
+    this.match = new VersusMatch(this.players.map(player => player.game));
+    this.uiManager = new UIManager();
+  }
+
+  /**
+   * Initialize both boards and start the first match
+   */
+  async init(): Promise<void> {
+    document.getElementById('background-container')?.appendChild(renderBackground());
+    ErrorHandler.getRequiredElement('single-layout').classList.add('hidden');
+    const layout = ErrorHandler.getRequiredElement('versus-layout');
+    layout.classList.remove('hidden');
+    layout.classList.add('flex');
+
+    for (const [index, player] of this.players.entries()) {
+      const prefix = `p${index + 1}`;
+      await ErrorHandler.safeAsync(
+        () => player.renderer.init(
+          ErrorHandler.getRequiredElement(`${prefix}-game-container`),
+          ErrorHandler.getRequiredElement(`${prefix}-hold-container`),
+          ErrorHandler.getRequiredElement(`${prefix}-next-container`)
+        ),
+        `Player ${index + 1} renderer initialization`
+      );
+    }
+
+    this.setupKeyboardInput();
+    this.setupSettings();
+    this.match.on('match_over', (event) => this.showResultsDialog(event.data.winner));
+    this.startUIUpdateLoop();
+    this.match.start();
+  }
+
+  /**
+   * Route each key to the player it belongs to
+   */
+  private setupKeyboardInput(): void {
+    window.addEventListener('keydown', (event) => {
+      // Leave keys alone while typing into a form field
+      if (event.target instanceof HTMLInputElement) {
+        return;
+      }
+
+      const player = this.findPlayer(event.code);
+      if (player || event.code === PAUSE_KEY) {
+        event.preventDefault();
+      }
+
+      // Ignore key repeat
+      if (this.pressedKeys.has(event.code)) {
+        return;
+      }
+      this.pressedKeys.add(event.code);
+
+      if (event.code === PAUSE_KEY) {
+        this.togglePause();
+      } else if (player) {
+        player.game.handleInput(player.keys[event.code], true);
+      }
+    });
+
+    window.addEventListener('keyup', (event) => {
+      this.pressedKeys.delete(event.code);
+      const player = this.findPlayer(event.code);
+      if (player) {
+        player.game.handleInput(player.keys[event.code], false);
+      }
+    });
+
+    // Release all keys when the window loses focus
+    window.addEventListener('blur', () => {
+      this.pressedKeys.forEach(code => {
+        const player = this.findPlayer(code);
+        if (player) {
+          player.game.handleInput(player.keys[code], false);
+        }
+      });
+      this.pressedKeys.clear();
+    });
+  }
+
+  /**
+   * Open each player's handling settings from their button, pausing both games while it is shown
+   */
+  private setupSettings(): void {
+    for (const [index, player] of this.players.entries()) {
+      const settingsButton = ErrorHandler.getRequiredElement(`p${index + 1}-settings-btn`);
+      settingsButton.addEventListener('click', () => {
+        settingsButton.blur();
+        const paused = player.game.getState() === GameState.PLAYING;
+        if (paused) {
+          this.togglePause();
+        }
+
+        this.uiManager.showHandlingSettingsDialog(
+          loadHandlingSettings(index + 1),
+          (settings) => {
+            saveHandlingSettings(settings, index + 1);
+            player.game.setHandling(settings);
+          },
+          () => {
+            if (paused) {
+              this.togglePause();
+            }
+          }
+        );
+      });
+    }
+  }
+
+  private findPlayer(code: string): Player | undefined {
+    return this.players.find(player => player.keys[code] !== undefined);
+  }
+
+  /**
+   * Pause or resume both games together
+   */
+  private togglePause(): void {
+    if (this.match.isOver()) return;
+    for (const { game } of this.players) {
+      if (game.getState() === GameState.PLAYING || game.getState() === GameState.PAUSED) {
+        game.handleInput(InputAction.PAUSE, true);
+      }
+    }
+  }
+
+  /**
+   * Show who won, with a rematch on the same keys
+   */
+  private showResultsDialog(winner: number): void {
+    this.uiManager.showVersusResultsDialog(
+      {
+        winner,
+        time: this.players[winner].game.getElapsedTime(),
+        players: this.players.map(({ game }) => ({
+          lines: game.getStats().lines,
+          attack: game.getStats().attack,
+          pieces: game.getStats().pieces,
+        })),
+      },
+      () => {
+        this.match.start();
+      }
+    );
+  }
+
+  /**
+   * Start UI update loop for both players' panels
+   */
+  private startUIUpdateLoop(): void {
+    const updateLoop = () => {
+      ErrorHandler.safe(() => {
+        for (const player of this.players) {
+          const stats = player.game.getStats();
+          player.scoreElement.textContent = stats.score.toString();
+          player.linesElement.textContent = stats.lines.toString();
+          player.attackElement.textContent = stats.attack.toString();
+
+          // The meter fills by one row per pending garbage line
+          const pending = Math.min(player.game.getPendingGarbage(), BOARD_HEIGHT);
+          player.incomingElement.style.height = `${(pending / BOARD_HEIGHT) * 100}%`;
+        }
+      }, 'Versus UI update loop');
+
+      requestAnimationFrame(updateLoop);
+    };
+
+    requestAnimationFrame(updateLoop);
+  }
+}